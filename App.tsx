@@ -1,22 +1,70 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { DEFAULT_PARAMS, DEFAULT_SLAB, FIXED_PLATES, FREE_PLATES, CANVAS_SIZE } from './constants';
-import { SimulationParams, SlabState, PlateState, AppMode } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { DEFAULT_PARAMS, DEFAULT_DIELECTRICS, DEFAULT_CHARGES, FIXED_PLATES, FREE_PLATES, CANVAS_SIZE, MAX_HISTORY_POINTS, URL_UPDATE_DELAY_MS, HISTORY_LIMIT, HISTORY_MERGE_MS } from './constants';
+import { SimulationParams, DielectricState, PlateState, ChargeState, AppMode, SolverStats, ToolMode, FieldAnalysis, DisplayRange, Scene, DataExportFormat, ExportRequest, FigureFormat, RecordingSettings } from './types';
 import Controls from './components/Controls';
 import SimulationCanvas from './components/SimulationCanvas';
-import { getGradientCSS } from './services/solver';
+import { getGradientCSS, getPotentialRange } from './services/solver';
+import { describeQuantity, createColorScale, formatQuantityValue } from './services/quantities';
+import { loadExample, ExampleScene } from './services/examples';
+import { History, emptyHistory, recordHistory, redoHistory, undoHistory } from './services/history';
+import { applySweepValue, getFrameCount, getSweepValue } from './services/recorder';
+import { SceneError, decodeSceneHash, downloadScene, encodeSceneHash, readSceneFile } from './services/scene';
 
 const App: React.FC = () => {
   const [params, setParams] = useState<SimulationParams>(DEFAULT_PARAMS);
-  const [slab, setSlab] = useState<SlabState>(DEFAULT_SLAB);
+  const [dielectrics, setDielectrics] = useState<DielectricState[]>(DEFAULT_DIELECTRICS);
+  const [selectedDielectricId, setSelectedDielectricId] = useState<string | null>(null);
   const [appMode, setAppMode] = useState<AppMode>('fixed');
+  const [toolMode, setToolMode] = useState<ToolMode>('select');
   const [plates, setPlates] = useState<PlateState[]>(FIXED_PLATES);
+  const [charges, setCharges] = useState<ChargeState[]>(DEFAULT_CHARGES);
   const [isRunning, setIsRunning] = useState(false);
   const [resetCount, setResetCount] = useState(0);
+  const [solverStats, setSolverStats] = useState<SolverStats | null>(null);
+  const [residualHistory, setResidualHistory] = useState<SolverStats[]>([]);
+  const [analysis, setAnalysis] = useState<FieldAnalysis | null>(null);
+  const [displayRange, setDisplayRange] = useState<DisplayRange | null>(null);
+  // Problems from the last scene that failed to load
+  const [sceneIssues, setSceneIssues] = useState<string[] | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [exportRequest, setExportRequest] = useState<ExportRequest | null>(null);
+  const [recording, setRecording] = useState<RecordingSettings | null>(null);
+  const [recordedFrames, setRecordedFrames] = useState(0);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  // Read by the auto-stop check, which must not end a recording early
+  const recordingRef = useRef(recording);
+  recordingRef.current = recording;
+  // The URL is only written once any scene link in it has been read
+  const hydratedRef = useRef(false);
+
+  // A reset restarts the relaxation, so the convergence record starts over too
+  useEffect(() => {
+    setSolverStats(null);
+    setResidualHistory([]);
+  }, [resetCount]);
+
+  const handleSolverStats = useCallback((stats: SolverStats) => {
+    setSolverStats(stats);
+    setResidualHistory(prev => {
+      const next = [...prev, stats];
+      // Thin out old samples instead of dropping them so the whole run stays visible
+      return next.length > MAX_HISTORY_POINTS ? next.filter((_, i) => i % 2 === 0 || i === next.length - 1) : next;
+    });
+    if (params.autoStop && !recordingRef.current && stats.residual < params.tolerance) {
+      setIsRunning(false);
+    }
+  }, [params.autoStop, params.tolerance]);
+
+  const isConverged = solverStats !== null && solverStats.residual < params.tolerance;
 
   // Sync plates with mode
   const handleModeChange = (mode: AppMode) => {
     setAppMode(mode);
+    // Painting conductors is only allowed where conductors can be edited
+    if (mode === 'fixed' && params.brushTarget === 'conductor') {
+      setParams({ ...params, brushTarget: 'dielectric' });
+    }
     setPlates(mode === 'fixed' ? FIXED_PLATES : FREE_PLATES);
     setResetCount(c => c + 1);
   };
@@ -27,31 +75,222 @@ const App: React.FC = () => {
 
   const handleReset = useCallback(() => {
     setParams(DEFAULT_PARAMS);
-    setSlab(DEFAULT_SLAB);
+    setDielectrics(DEFAULT_DIELECTRICS);
+    setSelectedDielectricId(null);
     setAppMode('fixed');
+    setToolMode('select');
     setPlates(FIXED_PLATES);
+    setCharges(DEFAULT_CHARGES);
     setIsRunning(false);
     setResetCount(c => c + 1);
   }, []);
 
   const handleParamChange = (newParams: SimulationParams) => {
     setParams(newParams);
-    if (
-      newParams.voltageTop !== params.voltageTop || 
-      newParams.voltageBottom !== params.voltageBottom
-    ) {
-       setResetCount(c => c + 1);
+  };
+
+  // Replaces the whole setup and restarts the solve from it
+  const applyScene = useCallback((scene: Scene) => {
+    setParams(scene.params);
+    setDielectrics(scene.dielectrics);
+    setSelectedDielectricId(null);
+    setAppMode(scene.appMode);
+    setToolMode('select');
+    setPlates(scene.plates);
+    setCharges(scene.charges);
+    setIsRunning(false);
+    setResetCount(c => c + 1);
+  }, []);
+
+  // Load the scene from a shared link, on start-up and whenever the hash is edited
+  useEffect(() => {
+    const hydrate = async () => {
+      try {
+        const scene = await decodeSceneHash(window.location.hash);
+        if (scene) applyScene(scene);
+      } catch (err) {
+        setSceneIssues(err instanceof SceneError ? err.issues : [(err as Error).message]);
+      }
+      hydratedRef.current = true;
+    };
+    hydrate();
+    window.addEventListener('hashchange', hydrate);
+    return () => window.removeEventListener('hashchange', hydrate);
+  }, [applyScene]);
+
+  // Keep the link in the address bar in step with the scene (replaceState does
+  // not fire hashchange, so this never feeds back into the hydration above)
+  useEffect(() => {
+    if (!hydratedRef.current) return;
+    const timer = setTimeout(async () => {
+      const hash = await encodeSceneHash({ appMode, params, dielectrics, plates, charges });
+      if (hash !== window.location.hash) history.replaceState(null, '', hash);
+    }, URL_UPDATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [appMode, params, dielectrics, plates, charges]);
+
+  // Undo/redo over whole scenes. Every change is recorded except those made by
+  // undo/redo itself; a drag on the canvas, or a burst of edits in quick
+  // succession (typing, slider moves), collapses into a single entry.
+  const [editHistory, setEditHistory] = useState<History<Scene>>(emptyHistory);
+  const lastSceneRef = useRef<Scene | null>(null);
+  const lastEditTimeRef = useRef(0);
+  const restoringRef = useRef(false);
+  const gestureRef = useRef({ active: false, recorded: false });
+
+  useEffect(() => {
+    const previous = lastSceneRef.current;
+    lastSceneRef.current = { appMode, params, dielectrics, plates, charges };
+    if (!previous || restoringRef.current) {
+      restoringRef.current = false;
+      return;
     }
+
+    const now = performance.now();
+    const gesture = gestureRef.current;
+    const merge = gesture.active ? gesture.recorded : now - lastEditTimeRef.current < HISTORY_MERGE_MS;
+    lastEditTimeRef.current = now;
+    if (gesture.active) gesture.recorded = true;
+    if (!merge) setEditHistory(h => recordHistory(h, previous, HISTORY_LIMIT));
+  }, [appMode, params, dielectrics, plates, charges]);
+
+  const handleGestureChange = useCallback((active: boolean) => {
+    gestureRef.current = { active, recorded: false };
+  }, []);
+
+  const restoreScene = (scene: Scene) => {
+    restoringRef.current = true;
+    setAppMode(scene.appMode);
+    setParams(scene.params);
+    setDielectrics(scene.dielectrics);
+    setPlates(scene.plates);
+    setCharges(scene.charges);
+    setSelectedDielectricId(id => (scene.dielectrics.some(d => d.id === id) ? id : null));
+  };
+
+  const handleUndo = () => {
+    const step = undoHistory(editHistory, { appMode, params, dielectrics, plates, charges });
+    if (!step) return;
+    setEditHistory(step.history);
+    restoreScene(step.state);
+  };
+
+  const handleRedo = () => {
+    const step = redoHistory(editHistory, { appMode, params, dielectrics, plates, charges });
+    if (!step) return;
+    setEditHistory(step.history);
+    restoreScene(step.state);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  const undoRef = useRef(handleUndo);
+  undoRef.current = handleUndo;
+  const redoRef = useRef(handleRedo);
+  redoRef.current = handleRedo;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRef.current();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoRef.current();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleSaveScene = () => {
+    downloadScene({ appMode, params, dielectrics, plates, charges });
   };
 
-  const minV = Math.min(params.voltageBottom, params.voltageTop);
-  const maxV = Math.max(params.voltageBottom, params.voltageTop);
+  const handleCopyLink = async () => {
+    const hash = await encodeSceneHash({ appMode, params, dielectrics, plates, charges });
+    history.replaceState(null, '', hash);
+    await navigator.clipboard?.writeText(window.location.href);
+  };
+
+  // The grids live in the canvas, which saves the file when the request changes
+  const handleExportData = (format: DataExportFormat) => {
+    setExportRequest(prev => ({ id: (prev?.id ?? 0) + 1, kind: 'data', format }));
+  };
+
+  const handleExportFigure = (format: FigureFormat, title: string, scale: number) => {
+    setExportRequest(prev => ({ id: (prev?.id ?? 0) + 1, kind: 'figure', format, title, scale }));
+  };
+
+  const applySweepStep = (settings: RecordingSettings, frame: number) => {
+    const value = getSweepValue(settings, frame);
+    setDielectrics(prev => applySweepValue(prev, 'dielectric', settings.sweep, value));
+    setPlates(prev => applySweepValue(prev, 'plate', settings.sweep, value));
+    setCharges(prev => applySweepValue(prev, 'charge', settings.sweep, value));
+  };
+
+  // Relaxation runs start from a fresh solve; sweeps start at their first value.
+  // A whole sweep undoes as one step.
+  const handleStartRecording = (settings: RecordingSettings) => {
+    if (settings.mode === 'sweep') {
+      handleGestureChange(true);
+      applySweepStep(settings, 0);
+    } else {
+      setResetCount(c => c + 1);
+    }
+    setRecordedFrames(0);
+    setRecordingError(null);
+    setRecording(settings);
+    setIsRunning(true);
+  };
+
+  const handleRecordingFrame = (frames: number) => {
+    setRecordedFrames(frames);
+    if (recording?.mode === 'sweep' && frames < getFrameCount(recording)) applySweepStep(recording, frames);
+  };
+
+  const handleRecordingEnd = (error: string | null) => {
+    handleGestureChange(false);
+    setRecording(null);
+    setRecordingError(error);
+  };
+
+  const handleLoadExample = (example: ExampleScene) => {
+    try {
+      applyScene(loadExample(example));
+      setSceneIssues(null);
+    } catch (err) {
+      setSceneIssues(err instanceof SceneError ? err.issues : [(err as Error).message]);
+    }
+  };
+
+  const handleLoadScene = async (file: File) => {
+    try {
+      applyScene(await readSceneFile(file));
+      setSceneIssues(null);
+    } catch (err) {
+      setSceneIssues(err instanceof SceneError ? err.issues : [`Could not read ${file.name}: ${(err as Error).message}`]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleLoadScene(file);
+  };
+
+  // Until the canvas reports the range it drew, fall back to the source voltages
+  const legendRange = displayRange ?? { ...getPotentialRange(plates, params), log: false };
+  const legendScale = createColorScale(legendRange);
+  const quantity = describeQuantity(params.displayQuantity, params);
   const tickCount = 5;
   const tickLabels = [];
   for (let i = 0; i < tickCount; i++) {
     const t = 1 - i / (tickCount - 1);
-    const val = minV + (maxV - minV) * t;
-    tickLabels.push(val);
+    tickLabels.push(legendScale.valueAt(t));
   }
 
   return (
@@ -65,6 +304,35 @@ const App: React.FC = () => {
         onReset={handleReset}
         appMode={appMode}
         onModeChange={handleModeChange}
+        toolMode={toolMode}
+        onToolModeChange={setToolMode}
+        dielectrics={dielectrics}
+        onDielectricsChange={setDielectrics}
+        selectedDielectricId={selectedDielectricId}
+        onSelectDielectric={setSelectedDielectricId}
+        plates={plates}
+        onPlatesChange={setPlates}
+        charges={charges}
+        onChargesChange={setCharges}
+        solverStats={solverStats}
+        residualHistory={residualHistory}
+        analysis={analysis}
+        onSaveScene={handleSaveScene}
+        onLoadScene={handleLoadScene}
+        onCopyLink={handleCopyLink}
+        onLoadExample={handleLoadExample}
+        onExportData={handleExportData}
+        onExportFigure={handleExportFigure}
+        recording={recording}
+        recordedFrames={recordedFrames}
+        recordingError={recordingError}
+        onStartRecording={handleStartRecording}
+        onStopRecording={() => setRecording(null)}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={editHistory.past.length > 0}
+        canRedo={editHistory.future.length > 0}
+        sceneIssues={sceneIssues}
       />
 
       <div className="flex-1 flex flex-col items-center justify-center relative p-4 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-neutral-800 to-neutral-950">
@@ -72,22 +340,49 @@ const App: React.FC = () => {
         <div className="absolute top-6 text-center z-10 opacity-70 pointer-events-none">
            <h2 className="text-4xl font-light tracking-tight text-white mb-1">Parallel Plate Capacitor</h2>
           <p className="text-sm text-neutral-400">
-            Real-time finite difference solver on a {params.gridSize}x{params.gridSize} grid
+            Real-time finite difference solver on a {params.gridNx}x{params.gridNy} grid
           </p>
+          {solverStats && (
+            <p className={`text-xs font-mono mt-1 ${isConverged ? 'text-emerald-400' : 'text-amber-400'}`}>
+              {isConverged ? 'Converged' : 'Not converged'} · iteration {solverStats.iteration} · residual {solverStats.residual.toExponential(2)} V
+            </p>
+          )}
         </div>
 
         <div className="flex flex-col md:flex-row items-center gap-6 mt-12">
           
-          <div className="relative border-4 border-neutral-800 rounded-xl shadow-2xl">
+          <div
+            className={`relative border-4 rounded-xl shadow-2xl transition-colors ${isDraggingFile ? 'border-emerald-500' : 'border-neutral-800'}`}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setIsDraggingFile(true);
+            }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false); }}
+            onDrop={handleDrop}
+          >
             <SimulationCanvas
               params={params}
               isRunning={isRunning}
-              slab={slab}
-              onSlabChange={setSlab}
+              dielectrics={dielectrics}
+              onDielectricsChange={setDielectrics}
+              selectedDielectricId={selectedDielectricId}
+              onSelectDielectric={setSelectedDielectricId}
               plates={plates}
               onPlatesChange={setPlates}
+              charges={charges}
+              onChargesChange={setCharges}
               resetTrigger={resetCount}
               appMode={appMode}
+              toolMode={toolMode}
+              onSolverStats={handleSolverStats}
+              onAnalysis={setAnalysis}
+              onDisplayRange={setDisplayRange}
+              onGestureChange={handleGestureChange}
+              exportRequest={exportRequest}
+              recording={recording}
+              onRecordingFrame={handleRecordingFrame}
+              onRecordingEnd={handleRecordingEnd}
             />
           </div>
           
@@ -95,6 +390,14 @@ const App: React.FC = () => {
             style={{ height: CANVAS_SIZE }} 
             className="flex flex-col items-stretch gap-3 bg-neutral-900/80 p-4 rounded-xl border border-neutral-700 backdrop-blur-md"
           >
+            <div className="text-[10px] font-mono text-neutral-400 text-center leading-tight max-w-[7rem]">
+              {quantity.label}
+              {(quantity.unit || legendRange.log) && (
+                <div className="text-neutral-500">
+                  {quantity.unit && `[${quantity.unit}]`}{legendRange.log ? ' log' : ''}
+                </div>
+              )}
+            </div>
             <div className="flex-1 flex flex-row items-stretch gap-3">
               <div className="relative w-4 h-full rounded-full border border-neutral-600 overflow-hidden shadow-inner">
                 <div 
@@ -108,7 +411,7 @@ const App: React.FC = () => {
                       <div key={i} className="flex items-center gap-2">
                           <div className="w-2 h-px bg-neutral-500 shadow-sm"></div>
                           <span className="text-xs font-mono text-neutral-300 min-w-[3ch]">
-                              {val.toFixed(0)}V
+                              {formatQuantityValue(val)}
                           </span>
                       </div>
                   ))}
@@ -1,7 +1,24 @@
 
-import React from 'react';
-import { SimulationParams, AppMode } from '../types';
-import { Play, Pause, RotateCcw, Activity, Palette, Move, Lock, ShieldCheck } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { SimulationParams, AppMode, DielectricState, PlateState, ShapeGeometry, ShapeKind, ToolMode, FieldAnalysis, ChargeState, ChargeKind, SolverStats, SolverType, DisplayQuantity, DataExportFormat, FigureFormat, RecordingSettings, RecordingFormat, SweepKind, SweepProperty, BoundaryEdge, BoundaryType, CoordinateSystem, PhysicsMode } from '../types';
+import { EPSILON_0, DEFAULT_POLYGON_SIDES, NEW_DIELECTRIC, NEW_PLATE, NEW_POINT_CHARGE, NEW_DISTRIBUTED_CHARGE, GRID_SIZE_OPTIONS, WORLD_SIZE, DEFAULT_RECORDING } from '../constants';
+import { SOLVER_BACKENDS, estimateOptimalOmega } from '../services/backends';
+import { regularPolygon } from '../services/geometry';
+import { QUANTITIES, describeQuantity } from '../services/quantities';
+import { BOUNDARY_EDGES, BOUNDARY_TYPES, OPPOSITE_EDGE, getBoundary, getOuterEdges } from '../services/boundaries';
+import { COORDINATE_SYSTEMS, isAxisymmetric } from '../services/coordinates';
+import { PHYSICS_MODES, isCurrentMode } from '../services/physics';
+import { LENGTH_UNITS, formatLength, fromDisplayLength, getLengthLabel, getMetresPerUnit, toDisplayLength } from '../services/units';
+import { EXAMPLES, ExampleScene } from '../services/examples';
+import { EXPORT_FORMATS } from '../services/export';
+import { FIGURE_SCALES } from '../services/figure';
+import { RECORDING_FORMATS, SWEEP_PROPERTIES, getFrameCount, isWebmSupported } from '../services/recorder';
+import { Play, Pause, RotateCcw, Activity, Palette, Move, Lock, ShieldCheck, Zap, Plus, Trash2, TrendingDown, Cpu, Copy, BatteryCharging, Layers, ArrowUp, ArrowDown, Brush, MousePointer2, Gauge, Crosshair, Ruler, FolderOpen, Save, Link2, BookOpen, Undo2, Redo2, Download, ImageIcon, Video, Square, Cylinder } from 'lucide-react';
+import ConvergencePlot from './ConvergencePlot';
+import SurfaceChargePlot from './SurfaceChargePlot';
+
+// Position and size shared by shapes and charges
+type Box = Pick<ShapeGeometry, 'x' | 'y' | 'width' | 'height'>;
 
 interface ControlsProps {
   params: SimulationParams;
@@ -11,6 +28,35 @@ interface ControlsProps {
   onReset: () => void;
   appMode: AppMode;
   onModeChange: (mode: AppMode) => void;
+  toolMode: ToolMode;
+  onToolModeChange: (tool: ToolMode) => void;
+  dielectrics: DielectricState[];
+  onDielectricsChange: (newDielectrics: DielectricState[]) => void;
+  selectedDielectricId: string | null;
+  onSelectDielectric: (id: string | null) => void;
+  plates: PlateState[];
+  onPlatesChange: (newPlates: PlateState[]) => void;
+  charges: ChargeState[];
+  onChargesChange: (newCharges: ChargeState[]) => void;
+  solverStats: SolverStats | null;
+  residualHistory: SolverStats[];
+  analysis: FieldAnalysis | null;
+  onSaveScene: () => void;
+  onLoadScene: (file: File) => void;
+  onCopyLink: () => void;
+  onLoadExample: (example: ExampleScene) => void;
+  onExportData: (format: DataExportFormat) => void;
+  onExportFigure: (format: FigureFormat, title: string, scale: number) => void;
+  recording: RecordingSettings | null;
+  recordedFrames: number;
+  recordingError: string | null;
+  onStartRecording: (settings: RecordingSettings) => void;
+  onStopRecording: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  sceneIssues: string[] | null;
 }
 
 const Controls: React.FC<ControlsProps> = ({
@@ -21,16 +67,269 @@ const Controls: React.FC<ControlsProps> = ({
   onReset,
   appMode,
   onModeChange,
+  toolMode,
+  onToolModeChange,
+  dielectrics,
+  onDielectricsChange,
+  selectedDielectricId,
+  onSelectDielectric,
+  plates,
+  onPlatesChange,
+  charges,
+  onChargesChange,
+  solverStats,
+  residualHistory,
+  analysis,
+  onSaveScene,
+  onLoadScene,
+  onCopyLink,
+  onLoadExample,
+  onExportData,
+  onExportFigure,
+  recording,
+  recordedFrames,
+  recordingError,
+  onStartRecording,
+  onStopRecording,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  sceneIssues,
 }) => {
+  const [sigmaPlateId, setSigmaPlateId] = useState<string | null>(null);
+  const sceneInputRef = useRef<HTMLInputElement>(null);
+  const [exampleId, setExampleId] = useState(EXAMPLES[0].id);
+  const selectedExample = EXAMPLES.find(e => e.id === exampleId) ?? EXAMPLES[0];
+  const [exportFormat, setExportFormat] = useState<DataExportFormat>('csv');
+  const [figureTitle, setFigureTitle] = useState('');
+  const [figureScale, setFigureScale] = useState(2);
+  const [recordSettings, setRecordSettings] = useState<RecordingSettings>(DEFAULT_RECORDING);
+
+  // Objects a sweep can move; conductors only where they can be edited
+  const sweepTargets: { kind: SweepKind; id: string; label: string }[] = [
+    ...dielectrics.map(d => ({ kind: 'dielectric' as const, id: d.id, label: d.label })),
+    ...(appMode === 'free' ? plates.map(p => ({ kind: 'plate' as const, id: p.id, label: p.label })) : []),
+    ...charges.map((c, i) => ({ kind: 'charge' as const, id: c.id, label: `Charge ${i + 1}` })),
+  ];
+  const sweep = recordSettings.sweep;
+  const sweepTarget = sweepTargets.find(t => t.kind === sweep.kind && t.id === sweep.targetId) ?? sweepTargets[0];
+  const updateRecording = (changes: Partial<RecordingSettings>) => setRecordSettings({ ...recordSettings, ...changes });
+  const updateSweep = (changes: Partial<RecordingSettings['sweep']>) =>
+    updateRecording({ sweep: { ...sweep, ...(sweepTarget ? { kind: sweepTarget.kind, targetId: sweepTarget.id } : {}), ...changes } });
+  const canRecord = recordSettings.mode === 'iterations' || !!sweepTarget;
+
   const handleChange = (key: keyof SimulationParams, value: any) => {
     onParamChange({ ...params, [key]: value });
   };
 
+  // Periodic edges come in pairs, so switching one edge in or out of periodic takes its partner along
+  const handleBoundaryChange = (side: BoundaryEdge, type: BoundaryType) => {
+    const opposite = OPPOSITE_EDGE[side];
+    const changes: Partial<SimulationParams> = { [`boundary${side}`]: type };
+    if (type === 'periodic') changes[`boundary${opposite}`] = 'periodic';
+    else if (params[`boundary${opposite}`] === 'periodic') changes[`boundary${opposite}`] = 'neumann';
+    onParamChange({ ...params, ...changes });
+  };
+
+  // The radial edges of an axisymmetric domain cannot wrap, so a periodic pair there becomes insulated
+  const handleCoordinatesChange = (coordinates: CoordinateSystem) => {
+    const changes: Partial<SimulationParams> = { coordinates };
+    if (coordinates === 'axisymmetric' && params.boundaryLeft === 'periodic') {
+      changes.boundaryLeft = 'neumann';
+      changes.boundaryRight = 'neumann';
+    }
+    onParamChange({ ...params, ...changes });
+  };
+
+  // Switching to a polygon starts from a regular outline the user can then reshape
+  const getShapeChange = (obj: ShapeGeometry, shape: ShapeKind): Partial<ShapeGeometry> => ({
+    shape,
+    points: shape === 'polygon' && obj.shape !== 'polygon' ? regularPolygon(DEFAULT_POLYGON_SIDES) : obj.points,
+  });
+
+  /**
+   * Position and size typed in the display length unit. Point charges only
+   * take a position, which is their centre rather than their box corner.
+   */
+  const renderBoxFields = (box: Box, onChange: (changes: Partial<Box>) => void, centred = false) => {
+    const fields: { key: keyof Box; label: string; value: number }[] = centred
+      ? [
+        { key: 'x', label: 'x', value: box.x + box.width / 2 },
+        { key: 'y', label: 'y', value: box.y + box.height / 2 },
+      ]
+      : [
+        { key: 'x', label: 'x', value: box.x },
+        { key: 'y', label: 'y', value: box.y },
+        { key: 'width', label: 'w', value: box.width },
+        { key: 'height', label: 'h', value: box.height },
+      ];
+    const handleBoxChange = (key: keyof Box, display: number) => {
+      if (isNaN(display)) return;
+      const world = fromDisplayLength(display, params);
+      if ((key === 'width' || key === 'height') && world <= 0) return;
+      if (centred) onChange({ [key]: world - (key === 'x' ? box.width : box.height) / 2 });
+      else onChange({ [key]: world });
+    };
+    return (
+      <div className={`grid ${centred ? 'grid-cols-2' : 'grid-cols-4'} gap-1`}>
+        {fields.map(f => (
+          <label key={f.key} className="flex items-center gap-1 text-[10px] text-neutral-500" title={`${f.key} (${getLengthLabel(params)})`}>
+            {f.label}
+            <input
+              type="number"
+              value={Number(toDisplayLength(f.value, params).toPrecision(6))}
+              onChange={(e) => handleBoxChange(f.key, parseFloat(e.target.value))}
+              className="w-full min-w-0 bg-neutral-700 rounded px-1 py-1 text-[10px] text-neutral-200 outline-none"
+            />
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  const renderShapeFields = (obj: ShapeGeometry, onChange: (changes: Partial<ShapeGeometry>) => void) => (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="col-span-2">{renderBoxFields(obj, onChange)}</div>
+      <select value={obj.shape} onChange={(e) => onChange(getShapeChange(obj, e.target.value as ShapeKind))} className="bg-neutral-700 rounded text-[10px] p-1 cursor-pointer">
+        <option value="rect">Rectangle</option>
+        <option value="ellipse">Ellipse</option>
+        <option value="polygon">Polygon</option>
+        {obj.shape === 'stroke' && <option value="stroke">Brush stroke</option>}
+      </select>
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          step="5"
+          value={obj.rotation}
+          onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) onChange({ rotation: v }); }}
+          className="w-full min-w-0 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+          title="Rotation (degrees)"
+        />
+        <span className="text-[10px] text-neutral-500">°</span>
+      </div>
+      {obj.shape === 'ellipse' && (
+        <div className="col-span-2 flex items-center justify-between gap-2">
+          <label className="text-[10px] text-neutral-400">Hole (ring)</label>
+          <input type="range" min="0" max="0.9" step="0.05" value={obj.holeRatio ?? 0} onChange={(e) => onChange({ holeRatio: parseFloat(e.target.value) })} className="w-24 h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400" />
+          <span className="text-[10px] font-mono text-neutral-500 w-8 text-right">{Math.round((obj.holeRatio ?? 0) * 100)}%</span>
+        </div>
+      )}
+    </div>
+  );
+
+  const handleAddDielectric = () => {
+    const id = `dielectric-${Date.now().toString(36)}`;
+    onDielectricsChange([...dielectrics, { ...NEW_DIELECTRIC, id, label: `D${dielectrics.length + 1}` }]);
+    onSelectDielectric(id);
+  };
+
+  const handleDielectricChange = (index: number, changes: Partial<DielectricState>) => {
+    const next = [...dielectrics];
+    next[index] = { ...next[index], ...changes };
+    onDielectricsChange(next);
+  };
+
+  // Later entries are painted on top, so moving up the list lowers the region
+  const handleMoveDielectric = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= dielectrics.length) return;
+    const next = [...dielectrics];
+    [next[index], next[target]] = [next[target], next[index]];
+    onDielectricsChange(next);
+  };
+
+  const handleRemoveDielectric = (index: number) => {
+    if (dielectrics[index].id === selectedDielectricId) onSelectDielectric(null);
+    onDielectricsChange(dielectrics.filter((_, i) => i !== index));
+  };
+
+  const newPlateId = () => `plate-${Date.now().toString(36)}`;
+
+  const handleAddPlate = () => {
+    onPlatesChange([...plates, { ...NEW_PLATE, id: newPlateId(), label: `C${plates.length + 1}` }]);
+  };
+
+  const handleDuplicatePlate = (index: number) => {
+    const source = plates[index];
+    // Offset the copy so it doesn't sit exactly on top of the original
+    const copy: PlateState = {
+      ...source,
+      id: newPlateId(),
+      label: `${source.label}'`,
+      x: Math.min(WORLD_SIZE - source.width, source.x + 5),
+      y: Math.min(WORLD_SIZE - source.height, source.y + 5),
+    };
+    onPlatesChange([...plates.slice(0, index + 1), copy, ...plates.slice(index + 1)]);
+  };
+
+  const handlePlateChange = (index: number, changes: Partial<PlateState>) => {
+    const next = [...plates];
+    next[index] = { ...next[index], ...changes };
+    onPlatesChange(next);
+  };
+
+  const handleRemovePlate = (index: number) => {
+    onPlatesChange(plates.filter((_, i) => i !== index));
+  };
+
+  // Surface charge is per world unit of perimeter; σ per metre needs the domain scale
+  const metresPerUnit = getMetresPerUnit(params);
+
+  // Planar charges and results are per unit depth; axisymmetric ones are
+  // totals, which carry one more length and so scale with the domain too
+  const axisymmetric = isAxisymmetric(params);
+  const totalScale = axisymmetric ? metresPerUnit : 1;
+
+  // Charges are stored as λ/ε₀ (V), or Q/ε₀ (V per world unit) when axisymmetric;
+  // the SI view scales by ε₀ for display only
+  const unitScale = params.chargeUnit === 'coulomb' ? EPSILON_0 : 1;
+  const chargeScale = unitScale * totalScale;
+  const chargeStep = Number((10 * chargeScale).toPrecision(1));
+  const chargeLabel = params.chargeUnit === 'coulomb' ? (axisymmetric ? 'C' : 'C/m') : (axisymmetric ? 'Q/ε₀' : 'λ/ε₀');
+
+  // Derived results follow the same unit choice: normalized by ε₀, or SI per metre of depth
+  const formatResult = (value: number, siUnit: string, normalizedUnit: string) =>
+    params.chargeUnit === 'coulomb'
+      ? `${(value * EPSILON_0 * totalScale).toExponential(3)} ${siUnit}${axisymmetric ? '' : '/m'}`
+      : `${(value * totalScale).toPrecision(4)}${normalizedUnit}${axisymmetric ? '·m' : ''}`;
+
+  // Current mode reuses the same results: charges are currents (A/m) and the
+  // capacitance is a conductance (S/m), with the same extra length when axisymmetric
+  const currentMode = isCurrentMode(params);
+  const currentLabel = axisymmetric ? 'A' : 'A/m';
+  const formatPower = (value: number) => `${(value * totalScale).toPrecision(4)} W${axisymmetric ? '' : '/m'}`;
+  const formatResistance = (conductance: number) => `${(1 / (conductance * totalScale)).toPrecision(4)} Ω${axisymmetric ? '' : '·m'}`;
+
+  const sigmaConductor = analysis?.conductors.find(c => c.id === sigmaPlateId) ?? analysis?.conductors[0];
+
+  const handleAddCharge = (kind: ChargeKind) => {
+    const template = kind === 'point' ? NEW_POINT_CHARGE : NEW_DISTRIBUTED_CHARGE;
+    onChargesChange([...charges, { ...template, id: `charge-${Date.now().toString(36)}` }]);
+  };
+
+  const handleChargeValue = (index: number, displayValue: number) => {
+    if (isNaN(displayValue)) return;
+    const next = [...charges];
+    next[index] = { ...next[index], value: displayValue / chargeScale };
+    onChargesChange(next);
+  };
+
+  const handleChargeChange = (index: number, changes: Partial<ChargeState>) => {
+    const next = [...charges];
+    next[index] = { ...next[index], ...changes };
+    onChargesChange(next);
+  };
+
+  const handleRemoveCharge = (index: number) => {
+    onChargesChange(charges.filter((_, i) => i !== index));
+  };
+
   return (
     <div className="flex flex-col gap-6 p-4 md:p-6 bg-neutral-900 text-neutral-200 w-full md:w-80 border-b md:border-b-0 md:border-r border-neutral-700 h-auto md:h-full overflow-y-auto shrink-0 scrollbar-thin scrollbar-thumb-neutral-700">
       <div className="space-y-1">
         <h1 className="text-xl font-bold text-white tracking-tight">EM Sandbox 2D</h1>
-        <p className="text-[10px] text-neutral-500 uppercase font-bold tracking-widest">Poisson Solver (100x100)</p>
+        <p className="text-[10px] text-neutral-500 uppercase font-bold tracking-widest">Poisson Solver ({params.gridNx}x{params.gridNy})</p>
       </div>
 
       <div className="flex flex-col gap-3">
@@ -45,9 +344,498 @@ const Controls: React.FC<ControlsProps> = ({
         <button onClick={onReset} className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 font-semibold border border-neutral-700 text-sm">
           <RotateCcw size={16} /> Reset
         </button>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 text-xs font-semibold disabled:opacity-40 disabled:hover:bg-neutral-800"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={14} /> Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 text-xs font-semibold disabled:opacity-40 disabled:hover:bg-neutral-800"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={14} /> Redo
+          </button>
+        </div>
       </div>
 
       <div className="space-y-6">
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <FolderOpen size={14} /> Scene
+          </h2>
+          <div className="space-y-2 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <div className="grid grid-cols-3 gap-2">
+              <button onClick={onSaveScene} className="flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold">
+                <Save size={12} /> Save
+              </button>
+              <button onClick={() => sceneInputRef.current?.click()} className="flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold">
+                <FolderOpen size={12} /> Open
+              </button>
+              <button onClick={onCopyLink} className="flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold" title="Copy a link that reproduces this scene">
+                <Link2 size={12} /> Link
+              </button>
+              <input
+                ref={sceneInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onLoadScene(file);
+                  // Clear so picking the same file again still fires
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <p className="text-[10px] text-neutral-500">Drop a scene file onto the canvas to open it. The page address always links to the current scene.</p>
+            {sceneIssues && (
+              <ul className="text-[10px] text-red-400 space-y-0.5 list-disc pl-4 max-h-32 overflow-y-auto">
+                {sceneIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+              </ul>
+            )}
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <BookOpen size={14} /> Examples
+          </h2>
+          <div className="space-y-2 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <select
+              value={exampleId}
+              onChange={(e) => setExampleId(e.target.value)}
+              className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none cursor-pointer"
+            >
+              {EXAMPLES.map(example => <option key={example.id} value={example.id}>{example.name}</option>)}
+            </select>
+            <p className="text-[10px] text-neutral-400 leading-snug">{selectedExample.description}</p>
+            <button
+              onClick={() => onLoadExample(selectedExample)}
+              className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold"
+            >
+              <BookOpen size={12} /> Load example
+            </button>
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <Download size={14} /> Export
+          </h2>
+          <div className="space-y-2 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <div className="flex gap-2">
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as DataExportFormat)}
+                className="flex-1 bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none cursor-pointer"
+              >
+                {(Object.keys(EXPORT_FORMATS) as DataExportFormat[]).map(f => (
+                  <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onExportData(exportFormat)}
+                className="flex items-center justify-center gap-1 px-3 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold"
+              >
+                <Download size={12} /> Data
+              </button>
+            </div>
+            <p className="text-[10px] text-neutral-400 leading-snug">V, Ex, Ey, ε and charge density on the solver grid, with the cell spacing.</p>
+
+            <div className="pt-2 border-t border-neutral-700 space-y-2">
+              <input
+                type="text"
+                value={figureTitle}
+                placeholder="Figure title (optional)"
+                onChange={(e) => setFigureTitle(e.target.value)}
+                className="w-full bg-neutral-700 rounded px-2 py-1 text-sm outline-none"
+              />
+              <div className="grid grid-cols-3 gap-2">
+                <select
+                  value={figureScale}
+                  onChange={(e) => setFigureScale(Number(e.target.value))}
+                  className="bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none cursor-pointer"
+                  title="Resolution of the PNG and of the heatmap inside the SVG"
+                >
+                  {FIGURE_SCALES.map(s => <option key={s} value={s}>{s}×</option>)}
+                </select>
+                {(['png', 'svg'] as FigureFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => onExportFigure(format, figureTitle, figureScale)}
+                    className="flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold"
+                  >
+                    <ImageIcon size={12} /> {format}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <Video size={14} /> Record
+          </h2>
+          <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <fieldset disabled={!!recording} className="space-y-3 disabled:opacity-50">
+              <div className="grid grid-cols-2 gap-1 bg-neutral-800/50 p-1 rounded-lg border border-neutral-700">
+                {(Object.keys(RECORDING_FORMATS) as RecordingFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => updateRecording({ format })}
+                    disabled={format === 'webm' && !isWebmSupported()}
+                    title={format === 'webm' && !isWebmSupported() ? 'This browser cannot encode video (no WebCodecs)' : undefined}
+                    className={`py-1 rounded-md text-[10px] uppercase font-bold transition-all ${recordSettings.format === format ? 'bg-neutral-600 text-white shadow-md' : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-700/50'}`}
+                  >
+                    {RECORDING_FORMATS[format].label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-1 bg-neutral-800/50 p-1 rounded-lg border border-neutral-700">
+                {([['iterations', 'Relaxation'], ['sweep', 'Sweep']] as const).map(([mode, label]) => (
+                  <button key={mode} onClick={() => updateRecording({ mode })} className={`py-1 rounded-md text-[10px] uppercase font-bold transition-all ${recordSettings.mode === mode ? 'bg-neutral-600 text-white shadow-md' : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-700/50'}`}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="text-[10px] font-medium text-neutral-400">Frame rate (fps)</label>
+                  <input type="number" min="1" max="60" value={recordSettings.fps} onChange={(e) => { const v = parseInt(e.target.value); if (v >= 1 && v <= 60) updateRecording({ fps: v }); }} className="w-full bg-neutral-700 rounded px-2 py-1 text-sm outline-none" />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] font-medium text-neutral-400">Duration (s)</label>
+                  <input type="number" min="0.5" step="0.5" value={recordSettings.duration} onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) updateRecording({ duration: v }); }} className="w-full bg-neutral-700 rounded px-2 py-1 text-sm outline-none" />
+                </div>
+              </div>
+
+              {recordSettings.mode === 'iterations' ? (
+                <div className="space-y-1">
+                  <label className="text-[10px] font-medium text-neutral-400">Frame every (iterations)</label>
+                  <input type="number" min="1" value={recordSettings.iterationStep} onChange={(e) => { const v = parseInt(e.target.value); if (v >= 1) updateRecording({ iterationStep: v }); }} className="w-full bg-neutral-700 rounded px-2 py-1 text-sm outline-none" />
+                  <p className="text-[10px] text-neutral-500">Restarts the solve and films it converging.</p>
+                </div>
+              ) : !sweepTarget ? (
+                <p className="text-[10px] text-neutral-500 italic">Add a dielectric, charge or (in free mode) conductor to sweep.</p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={`${sweepTarget.kind}:${sweepTarget.id}`}
+                      onChange={(e) => {
+                        const target = sweepTargets.find(t => `${t.kind}:${t.id}` === e.target.value);
+                        if (!target) return;
+                        const property = SWEEP_PROPERTIES[target.kind].some(p => p.property === sweep.property) ? sweep.property : 'x';
+                        updateSweep({ kind: target.kind, targetId: target.id, property });
+                      }}
+                      className="bg-neutral-700 rounded px-2 py-1 text-xs outline-none cursor-pointer"
+                    >
+                      {sweepTargets.map(t => <option key={`${t.kind}:${t.id}`} value={`${t.kind}:${t.id}`}>{t.label}</option>)}
+                    </select>
+                    <select
+                      value={sweep.property}
+                      onChange={(e) => updateSweep({ property: e.target.value as SweepProperty })}
+                      className="bg-neutral-700 rounded px-2 py-1 text-xs outline-none cursor-pointer"
+                    >
+                      {SWEEP_PROPERTIES[sweepTarget.kind].map(p => <option key={p.property} value={p.property}>{p.label}</option>)}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-medium text-neutral-400">From</label>
+                      <input type="number" step="any" value={sweep.from} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) updateSweep({ from: v }); }} className="w-full bg-neutral-700 rounded px-2 py-1 text-sm outline-none" />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] font-medium text-neutral-400">To</label>
+                      <input type="number" step="any" value={sweep.to} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) updateSweep({ to: v }); }} className="w-full bg-neutral-700 rounded px-2 py-1 text-sm outline-none" />
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-neutral-500">Each frame waits for the solve to converge at its step.</p>
+                </div>
+              )}
+            </fieldset>
+
+            {recording ? (
+              <button
+                onClick={onStopRecording}
+                className="w-full flex items-center justify-center gap-2 py-1.5 rounded bg-red-600 hover:bg-red-500 text-[10px] uppercase font-bold"
+              >
+                <Square size={12} /> Stop and save ({recordedFrames}/{getFrameCount(recording)})
+              </button>
+            ) : (
+              <button
+                onClick={() => onStartRecording(recordSettings.mode === 'sweep' && sweepTarget
+                  ? { ...recordSettings, sweep: { ...sweep, kind: sweepTarget.kind, targetId: sweepTarget.id } }
+                  : recordSettings)}
+                disabled={!canRecord}
+                className="w-full flex items-center justify-center gap-2 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold disabled:opacity-40"
+              >
+                <Video size={12} /> Record {getFrameCount(recordSettings)} frames
+              </button>
+            )}
+            {recordingError && <p className="text-[10px] text-red-400">{recordingError}</p>}
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <TrendingDown size={14} /> Convergence
+          </h2>
+          <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <div className="grid grid-cols-2 gap-3 text-[10px]">
+              <div>
+                <div className="text-neutral-500 font-bold uppercase">Iteration</div>
+                <div className="font-mono text-sm text-white">{solverStats ? solverStats.iteration : 0}</div>
+              </div>
+              <div>
+                <div className="text-neutral-500 font-bold uppercase">Residual (V)</div>
+                <div className="font-mono text-sm text-white">{solverStats ? solverStats.residual.toExponential(2) : '—'}</div>
+              </div>
+            </div>
+
+            <ConvergencePlot history={residualHistory} tolerance={params.tolerance} />
+
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <div className="space-y-1">
+                <label className="text-[10px] font-medium text-neutral-400">Tolerance (V)</label>
+                <input type="number" step="any" min="0" value={params.tolerance} onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) handleChange('tolerance', v); }} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none focus:ring-1 focus:ring-emerald-500 transition-all" />
+              </div>
+              <div className="flex items-center justify-between pb-1.5">
+                <span className="text-xs">Auto-stop</span>
+                <input type="checkbox" checked={params.autoStop} onChange={(e) => handleChange('autoStop', e.target.checked)} className="w-4 h-4 accent-emerald-500" />
+              </div>
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <Gauge size={14} /> Results
+          </h2>
+          <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            {!analysis ? (
+              <p className="text-[10px] text-neutral-500 italic">Run the solver to compute results.</p>
+            ) : currentMode ? (
+              <>
+                <div className="grid grid-cols-2 gap-3 text-[10px]">
+                  <div>
+                    <div className="text-neutral-500 font-bold uppercase">Power</div>
+                    <div className="font-mono text-xs text-white">{analysis.power !== null ? formatPower(analysis.power) : '—'}</div>
+                  </div>
+                  <div>
+                    <div className="text-neutral-500 font-bold uppercase">Resistance</div>
+                    <div className="font-mono text-xs text-white">
+                      {analysis.capacitance ? formatResistance(analysis.capacitance.value) : '—'}
+                    </div>
+                  </div>
+                </div>
+                {analysis.capacitance && (
+                  <p className="text-[10px] text-neutral-500">
+                    R = ΔV/I between {analysis.capacitance.high} and {analysis.capacitance.low}
+                    {analysis.idealCapacitance !== null && (
+                      <> · ideal d/(σA) {formatResistance(analysis.idealCapacitance)}
+                        {' '}({((analysis.idealCapacitance / analysis.capacitance.value - 1) * 100).toFixed(1)}% vs ideal)</>
+                    )}
+                  </p>
+                )}
+
+                <table className="w-full text-[10px] font-mono">
+                  <thead>
+                    <tr className="text-neutral-500 uppercase">
+                      <th className="text-left font-bold">Electrode</th>
+                      <th className="text-right font-bold">V</th>
+                      <th className="text-right font-bold">I out ({currentLabel})</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analysis.conductors.map(c => (
+                      <tr key={c.id} className="text-neutral-300">
+                        <td>{c.label}{c.floating ? ' (float)' : ''}</td>
+                        <td className="text-right">{c.voltage.toFixed(2)}</td>
+                        <td className="text-right">{Number((c.charge * totalScale).toPrecision(4))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <table className="w-full text-[10px] font-mono">
+                  <thead>
+                    <tr className="text-neutral-500 uppercase">
+                      <th className="text-left font-bold">Region</th>
+                      <th className="text-right font-bold">Joule power</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analysis.regionPower.map(region => (
+                      <tr key={region.id} className="text-neutral-300">
+                        <td>{region.label}</td>
+                        <td className="text-right">{formatPower(region.power)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {sigmaConductor && (
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <label className="text-[10px] text-neutral-400">Normal current density J (A/m²)</label>
+                      <select value={sigmaConductor.id} onChange={(e) => setSigmaPlateId(e.target.value)} className="bg-neutral-700 rounded text-[10px] p-1 cursor-pointer">
+                        {analysis.conductors.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                      </select>
+                    </div>
+                    <SurfaceChargePlot
+                      samples={sigmaConductor.surfaceCharge.map(p => ({ s: toDisplayLength(p.s, params), sigma: p.sigma / metresPerUnit }))}
+                      lengthUnit={getLengthLabel(params)}
+                    />
+                  </div>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3 text-[10px]">
+                  <div>
+                    <div className="text-neutral-500 font-bold uppercase">Energy</div>
+                    <div className="font-mono text-xs text-white">{formatResult(analysis.energy, 'J', ' ε₀·V²')}</div>
+                  </div>
+                  <div>
+                    <div className="text-neutral-500 font-bold uppercase">Capacitance</div>
+                    <div className="font-mono text-xs text-white">
+                      {analysis.capacitance ? formatResult(analysis.capacitance.value, 'F', ' ε₀') : '—'}
+                    </div>
+                  </div>
+                </div>
+                {analysis.capacitance && (
+                  <p className="text-[10px] text-neutral-500">
+                    C = Q/ΔV between {analysis.capacitance.high} and {analysis.capacitance.low}
+                    {analysis.idealCapacitance !== null && (
+                      <> · ideal εA/d {formatResult(analysis.idealCapacitance, 'F', ' ε₀')}
+                        {' '}({((analysis.capacitance.value / analysis.idealCapacitance - 1) * 100).toFixed(1)}% vs ideal)</>
+                    )}
+                  </p>
+                )}
+
+                <table className="w-full text-[10px] font-mono">
+                  <thead>
+                    <tr className="text-neutral-500 uppercase">
+                      <th className="text-left font-bold">Conductor</th>
+                      <th className="text-right font-bold">V</th>
+                      <th className="text-right font-bold">Q ({chargeLabel})</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analysis.conductors.map(c => (
+                      <tr key={c.id} className="text-neutral-300">
+                        <td>{c.label}{c.floating ? ' (float)' : ''}</td>
+                        <td className="text-right">{c.voltage.toFixed(2)}</td>
+                        <td className="text-right">{Number((c.charge * chargeScale).toPrecision(4))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {sigmaConductor && (
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <label className="text-[10px] text-neutral-400">
+                        Surface charge {params.chargeUnit === 'coulomb' ? 'σ (C/m²)' : 'σ/ε₀ (V/m)'}
+                      </label>
+                      <select value={sigmaConductor.id} onChange={(e) => setSigmaPlateId(e.target.value)} className="bg-neutral-700 rounded text-[10px] p-1 cursor-pointer">
+                        {analysis.conductors.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                      </select>
+                    </div>
+                    <SurfaceChargePlot
+                      samples={sigmaConductor.surfaceCharge.map(p => ({ s: toDisplayLength(p.s, params), sigma: p.sigma * unitScale / metresPerUnit }))}
+                      lengthUnit={getLengthLabel(params)}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <Cpu size={14} /> Solver
+          </h2>
+          <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-neutral-400">Method</label>
+              <select value={params.solverType} onChange={(e) => handleChange('solverType', e.target.value as SolverType)} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none cursor-pointer">
+                {Object.values(SOLVER_BACKENDS).map(backend => (
+                  <option key={backend.type} value={backend.type}>{backend.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {(['gridNx', 'gridNy'] as const).map(key => (
+                <div key={key} className="space-y-1">
+                  <label className="text-[10px] font-medium text-neutral-400">{key === 'gridNx' ? 'Cells across (Nx)' : 'Cells down (Ny)'}</label>
+                  <select value={params[key]} onChange={(e) => handleChange(key, parseInt(e.target.value, 10))} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none cursor-pointer">
+                    {GRID_SIZE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-[10px] font-medium text-neutral-400">Domain size (square)</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  value={Number((params.domainSize / LENGTH_UNITS[params.lengthUnit].metres).toPrecision(6))}
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value);
+                    if (v > 0) handleChange('domainSize', v * LENGTH_UNITS[params.lengthUnit].metres);
+                  }}
+                  className="flex-1 min-w-0 bg-neutral-700 rounded px-2 py-1 text-sm outline-none"
+                />
+                <select value={params.lengthUnit} onChange={(e) => handleChange('lengthUnit', e.target.value)} className="bg-neutral-700 rounded text-xs p-1 cursor-pointer">
+                  {(Object.keys(LENGTH_UNITS) as (keyof typeof LENGTH_UNITS)[]).map(u => (
+                    <option key={u} value={u}>{LENGTH_UNITS[u].label}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-[10px] font-mono text-neutral-500">
+                Δx = {formatLength(WORLD_SIZE / params.gridNx, params, 3)} · Δy = {formatLength(WORLD_SIZE / params.gridNy, params, 3)}
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="text-[10px] text-neutral-400">Rulers and scale bar</label>
+              <input type="checkbox" checked={params.showRulers} onChange={(e) => handleChange('showRulers', e.target.checked)} className="w-3.5 h-3.5 accent-emerald-500" />
+            </div>
+
+            {(params.solverType === 'sor' || params.solverType === 'red-black') && (
+              <div className="space-y-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs">Auto ω</span>
+                  <input type="checkbox" checked={params.autoOmega} onChange={(e) => handleChange('autoOmega', e.target.checked)} className="w-4 h-4 accent-emerald-500" />
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <label className="text-[10px] text-neutral-400">Relaxation ω</label>
+                    <span className="text-[10px] font-mono text-neutral-500">
+                      {(params.autoOmega ? estimateOptimalOmega(params) : params.sorOmega).toFixed(3)}
+                    </span>
+                  </div>
+                  <input type="range" min="1" max="1.99" step="0.01" disabled={params.autoOmega} value={params.autoOmega ? estimateOptimalOmega(params) : params.sorOmega} onChange={(e) => handleChange('sorOmega', parseFloat(e.target.value))} className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400 disabled:opacity-40" />
+                </div>
+              </div>
+            )}
+          </div>
+        </section>
+
         <section className="space-y-3">
           <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
              <Move size={14} /> Interaction Mode
@@ -74,32 +862,327 @@ const Controls: React.FC<ControlsProps> = ({
               <Move size={16} className="mb-1" /> Free Move
             </button>
           </div>
+          <div className="grid grid-cols-2 gap-2 bg-neutral-800/50 p-1 rounded-lg border border-neutral-700">
+            {(Object.keys(COORDINATE_SYSTEMS) as CoordinateSystem[]).map(system => {
+              const Icon = system === 'planar' ? Square : Cylinder;
+              return (
+                <button
+                  key={system}
+                  onClick={() => handleCoordinatesChange(system)}
+                  title={COORDINATE_SYSTEMS[system].description}
+                  className={`flex flex-col items-center py-2 rounded-md text-[10px] uppercase font-bold transition-all ${
+                    params.coordinates === system
+                    ? 'bg-neutral-600 text-white shadow-md'
+                    : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-700/50'
+                  }`}
+                >
+                  <Icon size={16} className="mb-1" /> {COORDINATE_SYSTEMS[system].label} ({COORDINATE_SYSTEMS[system].axes.join('–')})
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-neutral-500">{COORDINATE_SYSTEMS[params.coordinates].description}.</p>
         </section>
 
         <section className="space-y-3">
           <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
-            <Activity size={14} /> Physics Settings
+            <Brush size={14} /> Tools
           </h2>
-          <div className="space-y-4 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
-            <div className="grid grid-cols-2 gap-3">
-                <div className="space-y-1">
-                    <label className="text-[10px] font-medium text-neutral-400">Slab ε</label>
-                    <input type="number" step="0.1" min="1" value={params.epsilonSlab} onChange={(e) => handleChange('epsilonSlab', parseFloat(e.target.value))} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none focus:ring-1 focus:ring-emerald-500 transition-all" />
+          <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['select', MousePointer2, 'Select'],
+                ['brush', Brush, 'Brush'],
+                ['probe', Crosshair, 'Probe'],
+                ['linecut', Ruler, 'Line cut'],
+              ] as const).map(([tool, Icon, label]) => (
+                <button
+                  key={tool}
+                  onClick={() => onToolModeChange(tool)}
+                  className={`flex items-center justify-center gap-1 py-1.5 rounded text-[10px] uppercase font-bold transition-all ${
+                    toolMode === tool ? 'bg-neutral-600 text-white shadow-md' : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-700/50'
+                  }`}
+                >
+                  <Icon size={12} /> {label}
+                </button>
+              ))}
+            </div>
+
+            {toolMode === 'brush' && (
+              <div className="space-y-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                <div className="flex items-center justify-between gap-2">
+                  <label className="text-[10px] text-neutral-400">Paint</label>
+                  <select value={params.brushTarget} onChange={(e) => handleChange('brushTarget', e.target.value)} className="bg-neutral-700 rounded text-[10px] p-1 cursor-pointer">
+                    <option value="dielectric">Dielectric</option>
+                    <option value="conductor" disabled={appMode !== 'free'}>Conductor (free mode)</option>
+                  </select>
                 </div>
                 <div className="space-y-1">
-                    <label className="text-[10px] font-medium text-neutral-400">Background ε</label>
-                    <input type="number" step="0.1" min="1" value={params.epsilonBg} onChange={(e) => handleChange('epsilonBg', parseFloat(e.target.value))} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none focus:ring-1 focus:ring-emerald-500 transition-all" />
+                  <div className="flex justify-between">
+                    <label className="text-[10px] text-neutral-400">Radius</label>
+                    <span className="text-[10px] font-mono text-neutral-500">{formatLength(params.brushRadius, params, 3)}</span>
+                  </div>
+                  <input type="range" min="0.5" max="10" step="0.5" value={params.brushRadius} onChange={(e) => handleChange('brushRadius', parseFloat(e.target.value))} className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400" />
                 </div>
-            </div>
+                {params.brushTarget === 'dielectric' ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-[10px] text-neutral-400">ε</label>
+                    <input type="number" step="0.1" min="1" value={params.brushEpsilon} onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) handleChange('brushEpsilon', v); }} className="w-20 bg-neutral-700 rounded px-2 py-1 text-xs outline-none" />
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-[10px] text-neutral-400">Voltage (V)</label>
+                    <input type="number" value={params.brushVoltage} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) handleChange('brushVoltage', v); }} className="w-20 bg-neutral-700 rounded px-2 py-1 text-xs outline-none" />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </section>
 
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <Activity size={14} /> Physics Settings
+          </h2>
+          <div className="space-y-4 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
             <div className="space-y-1">
-              <label className="text-xs font-medium text-neutral-400">Top Plate (V+)</label>
-              <input type="number" value={params.voltageTop} onChange={(e) => handleChange('voltageTop', parseFloat(e.target.value))} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none" />
+                <label className="text-[10px] font-medium text-neutral-400">Solve for</label>
+                <select value={params.physics} onChange={(e) => handleChange('physics', e.target.value as PhysicsMode)} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none cursor-pointer">
+                  {(Object.keys(PHYSICS_MODES) as PhysicsMode[]).map(mode => (
+                    <option key={mode} value={mode}>{PHYSICS_MODES[mode].label}</option>
+                  ))}
+                </select>
+                <p className="text-[10px] text-neutral-500">{PHYSICS_MODES[params.physics].description}.</p>
             </div>
-            <div className="space-y-1">
-              <label className="text-xs font-medium text-neutral-400">Bottom Plate (V-)</label>
-              <input type="number" value={params.voltageBottom} onChange={(e) => handleChange('voltageBottom', parseFloat(e.target.value))} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none" />
+            {currentMode ? (
+              <div className="space-y-1">
+                  <label className="text-[10px] font-medium text-neutral-400">Background σ (S/m)</label>
+                  <input type="number" step="any" min="0" value={params.sigmaBg} onChange={(e) => { const v = parseFloat(e.target.value); if (v >= 0) handleChange('sigmaBg', v); }} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none focus:ring-1 focus:ring-emerald-500 transition-all" />
+                  <p className="text-[10px] text-neutral-500">0 makes the background an insulator, so current only flows through conductive regions.</p>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                  <label className="text-[10px] font-medium text-neutral-400">Background ε</label>
+                  <input type="number" step="0.1" min="1" value={params.epsilonBg} onChange={(e) => handleChange('epsilonBg', parseFloat(e.target.value))} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none focus:ring-1 focus:ring-emerald-500 transition-all" />
+              </div>
+            )}
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <Layers size={14} /> Dielectrics
+          </h2>
+          <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <button onClick={handleAddDielectric} className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold">
+              <Plus size={12} /> Dielectric
+            </button>
+
+            {dielectrics.length === 0 && (
+              <p className="text-[10px] text-neutral-500 italic">No dielectric regions placed.</p>
+            )}
+            {dielectrics.map((dielectric, i) => {
+              const selected = dielectric.id === selectedDielectricId;
+              return (
+                <div
+                  key={dielectric.id}
+                  onClick={() => onSelectDielectric(dielectric.id)}
+                  className={`space-y-2 p-1.5 rounded border cursor-pointer ${selected ? 'border-emerald-500/70 bg-neutral-700/40' : 'border-transparent'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={dielectric.label}
+                      onChange={(e) => handleDielectricChange(i, { label: e.target.value })}
+                      className="w-14 bg-neutral-700 rounded px-2 py-1 text-[10px] font-bold uppercase outline-none"
+                    />
+                    {currentMode ? (
+                      <>
+                        <span className="text-[10px] text-neutral-500">σ</span>
+                        <input
+                          type="number"
+                          step="any"
+                          min="0"
+                          value={dielectric.conductivity}
+                          onChange={(e) => { const v = parseFloat(e.target.value); if (v >= 0) handleDielectricChange(i, { conductivity: v }); }}
+                          className="flex-1 min-w-0 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+                          title="Conductivity (S/m); 0 is an insulator"
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-[10px] text-neutral-500">{dielectric.anisotropic ? 'εx' : 'ε'}</span>
+                        <input
+                          type="number"
+                          step="0.1"
+                          min="1"
+                          value={dielectric.epsilon}
+                          onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) handleDielectricChange(i, { epsilon: v }); }}
+                          className="flex-1 min-w-0 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+                        />
+                      </>
+                    )}
+                    <button onClick={() => handleMoveDielectric(i, 1)} disabled={i === dielectrics.length - 1} className="text-neutral-500 hover:text-white disabled:opacity-30" title="Bring forward">
+                      <ArrowUp size={14} />
+                    </button>
+                    <button onClick={() => handleMoveDielectric(i, -1)} disabled={i === 0} className="text-neutral-500 hover:text-white disabled:opacity-30" title="Send backward">
+                      <ArrowDown size={14} />
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); handleRemoveDielectric(i); }} className="text-neutral-500 hover:text-red-400" title="Remove dielectric">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  {selected && !currentMode && (
+                    <div className="flex items-center gap-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                      <label className="flex items-center gap-2 text-[10px] text-neutral-400 cursor-pointer">
+                        <input type="checkbox" checked={dielectric.anisotropic} onChange={(e) => handleDielectricChange(i, { anisotropic: e.target.checked, epsilonY: dielectric.epsilon })} className="w-3 h-3 accent-emerald-500" />
+                        Anisotropic
+                      </label>
+                      {dielectric.anisotropic && (
+                        <>
+                          <span className="text-[10px] text-neutral-500 ml-auto">εy</span>
+                          <input
+                            type="number"
+                            step="0.1"
+                            min="1"
+                            value={dielectric.epsilonY}
+                            onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) handleDielectricChange(i, { epsilonY: v }); }}
+                            className="w-16 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+                          />
+                        </>
+                      )}
+                    </div>
+                  )}
+                  {selected && renderShapeFields(dielectric, changes => handleDielectricChange(i, changes))}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <BatteryCharging size={14} /> Conductors
+          </h2>
+          <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            {appMode === 'free' ? (
+              <button onClick={handleAddPlate} className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold">
+                <Plus size={12} /> Conductor
+              </button>
+            ) : (
+              <p className="text-[10px] text-neutral-500 italic">Switch to Free Move to add or remove conductors.</p>
+            )}
+
+            {plates.length === 0 && (
+              <p className="text-[10px] text-neutral-500 italic">No conductors placed.</p>
+            )}
+            {plates.map((plate, i) => {
+              // A floating conductor shows the potential the solver found for it
+              const solvedVoltage = analysis?.conductors.find(c => c.id === plate.id)?.voltage;
+              const shownVoltage = plate.floating && solvedVoltage !== undefined ? Number(solvedVoltage.toFixed(2)) : plate.voltage;
+              return (
+                <div key={plate.id} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={plate.label}
+                      onChange={(e) => handlePlateChange(i, { label: e.target.value })}
+                      className="w-14 bg-neutral-700 rounded px-2 py-1 text-[10px] font-bold uppercase outline-none"
+                    />
+                    <input
+                      type="number"
+                      disabled={plate.floating}
+                      value={shownVoltage}
+                      onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) handlePlateChange(i, { voltage: v }); }}
+                      className={`flex-1 min-w-0 bg-neutral-700 rounded px-2 py-1 text-xs outline-none disabled:opacity-60 ${shownVoltage > 0 ? 'text-red-300' : 'text-blue-300'}`}
+                      title={plate.floating ? 'Solved floating potential' : 'Voltage'}
+                    />
+                    <span className="text-[10px] text-neutral-500">V</span>
+                    {appMode === 'free' && (
+                      <>
+                        <button onClick={() => handleDuplicatePlate(i)} className="text-neutral-500 hover:text-white" title="Duplicate conductor">
+                          <Copy size={14} />
+                        </button>
+                        <button onClick={() => handleRemovePlate(i)} className="text-neutral-500 hover:text-red-400" title="Remove conductor">
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-2 text-[10px] text-neutral-400 cursor-pointer">
+                      <input type="checkbox" checked={plate.floating} onChange={(e) => handlePlateChange(i, { floating: e.target.checked })} className="w-3 h-3 accent-emerald-500" />
+                      {currentMode ? 'Floating (no net current)' : 'Floating, charge'}
+                    </label>
+                    {plate.floating && !currentMode && (
+                      <>
+                        <input
+                          type="number"
+                          step={chargeStep}
+                          value={Number((plate.charge * chargeScale).toPrecision(6))}
+                          onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) handlePlateChange(i, { charge: v / chargeScale }); }}
+                          className="flex-1 min-w-0 bg-neutral-700 rounded px-2 py-0.5 text-[10px] outline-none"
+                          title="Net charge held by the conductor (0 for an uncharged object)"
+                        />
+                        <span className="text-[10px] text-neutral-500">{chargeLabel}</span>
+                      </>
+                    )}
+                  </div>
+                  {appMode === 'free' && renderShapeFields(plate, changes => handlePlateChange(i, changes))}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+            <Zap size={14} /> Free Charges
+          </h2>
+          <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => handleAddCharge('point')} className="flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold">
+                <Plus size={12} /> Point
+              </button>
+              <button onClick={() => handleAddCharge('distributed')} className="flex items-center justify-center gap-1 py-1.5 rounded bg-neutral-700 hover:bg-neutral-600 text-[10px] uppercase font-bold">
+                <Plus size={12} /> Region
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <label className="text-[10px] text-neutral-400">Units</label>
+              <select value={params.chargeUnit} onChange={(e) => handleChange('chargeUnit', e.target.value)} className="bg-neutral-700 rounded text-[10px] p-1 cursor-pointer">
+                <option value="normalized">{axisymmetric ? 'Q/ε₀ (V·m)' : 'λ/ε₀ (V)'}</option>
+                <option value="coulomb">{axisymmetric ? 'Q (C)' : 'λ (C/m)'}</option>
+              </select>
             </div>
+
+            {currentMode && (
+              <p className="text-[10px] text-neutral-500 italic">Steady currents have no free charge sources, so charges are ignored in DC current mode.</p>
+            )}
+            {charges.length === 0 && (
+              <p className="text-[10px] text-neutral-500 italic">No free charges placed.</p>
+            )}
+            {charges.map((charge, i) => (
+              <div key={charge.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={`text-[10px] font-bold uppercase w-12 ${charge.value >= 0 ? 'text-red-400' : 'text-blue-400'}`}>
+                    {charge.kind === 'point' ? 'Point' : 'Region'}
+                  </span>
+                  <input
+                    type="number"
+                    step={chargeStep}
+                    value={Number((charge.value * chargeScale).toPrecision(6))}
+                    onChange={(e) => handleChargeValue(i, parseFloat(e.target.value))}
+                    className="flex-1 min-w-0 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+                  />
+                  <button onClick={() => handleRemoveCharge(i)} className="text-neutral-500 hover:text-red-400" title="Remove charge">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                {renderBoxFields(charge, changes => handleChargeChange(i, changes), charge.kind === 'point')}
+              </div>
+            ))}
           </div>
         </section>
 
@@ -108,19 +1191,54 @@ const Controls: React.FC<ControlsProps> = ({
             <ShieldCheck size={14} /> Boundaries
           </h2>
           <div className="grid grid-cols-2 gap-2 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
-            {(['Top', 'Bottom', 'Left', 'Right'] as const).map(side => {
-              const key = `boundary${side}` as keyof SimulationParams;
+            {BOUNDARY_EDGES.map(side => {
+              const { type, voltage, voltageEnd } = getBoundary(params, side);
+              const renderVoltage = (key: keyof SimulationParams, value: number, title: string) => (
+                <input
+                  type="number"
+                  step="10"
+                  value={value}
+                  onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) handleChange(key, v); }}
+                  className="w-full min-w-0 bg-neutral-700 rounded px-1 py-0.5 text-[10px] outline-none"
+                  title={title}
+                />
+              );
+              if (!getOuterEdges(params).includes(side)) {
+                return (
+                  <div key={side} className="space-y-1">
+                    <label className="text-[10px] text-neutral-500 font-bold">{side}</label>
+                    <div className="w-full bg-neutral-800 rounded text-[10px] p-1 uppercase text-center text-neutral-400" title="Symmetry axis, where r = 0">
+                      Axis
+                    </div>
+                  </div>
+                );
+              }
               return (
                 <div key={side} className="space-y-1">
                   <label className="text-[10px] text-neutral-500 font-bold">{side}</label>
                   <select 
-                    value={params[key] as string} 
-                    onChange={(e) => handleChange(key, e.target.value)}
+                    value={type} 
+                    onChange={(e) => handleBoundaryChange(side, e.target.value as BoundaryType)}
                     className="w-full bg-neutral-700 rounded text-[10px] p-1 uppercase appearance-none text-center cursor-pointer"
+                    title={BOUNDARY_TYPES[type].description}
                   >
-                    <option value="dirichlet">Grounded</option>
-                    <option value="neumann">Insulated</option>
+                    {(Object.keys(BOUNDARY_TYPES) as BoundaryType[]).map(t => (
+                      <option key={t} value={t} disabled={t === 'periodic' && axisymmetric && side === 'Right'}>{BOUNDARY_TYPES[t].label}</option>
+                    ))}
                   </select>
+                  {type === 'dirichlet' && (
+                    <div className="flex items-center gap-1">
+                      {renderVoltage(`boundary${side}Voltage`, voltage, 'Edge voltage')}
+                      <span className="text-[10px] text-neutral-500">V</span>
+                    </div>
+                  )}
+                  {type === 'ramp' && (
+                    <div className="flex items-center gap-1">
+                      {renderVoltage(`boundary${side}Voltage`, voltage, side === 'Top' || side === 'Bottom' ? 'Voltage at the left end' : 'Voltage at the top end')}
+                      <span className="text-[10px] text-neutral-500">→</span>
+                      {renderVoltage(`boundary${side}VoltageEnd`, voltageEnd, side === 'Top' || side === 'Bottom' ? 'Voltage at the right end' : 'Voltage at the bottom end')}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -134,7 +1252,56 @@ const Controls: React.FC<ControlsProps> = ({
           <div className="space-y-3 bg-neutral-800/50 p-3 rounded-lg border border-neutral-700">
             
             <div className="space-y-1">
-              <label className="text-xs font-medium text-neutral-400">Potential Map</label>
+              <label className="text-xs font-medium text-neutral-400">Display</label>
+              <select value={params.displayQuantity} onChange={(e) => handleChange('displayQuantity', e.target.value)} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none cursor-pointer">
+                {(Object.keys(QUANTITIES) as DisplayQuantity[]).map(q => (
+                  <option key={q} value={q}>{describeQuantity(q, params).label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-1 bg-neutral-800/50 p-1 rounded-lg border border-neutral-700">
+                {([['auto', 'Auto'], ['symmetric', '± Sym'], ['manual', 'Manual']] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => handleChange('rangeMode', mode)}
+                    className={`py-1 rounded-md text-[10px] uppercase font-bold transition-all ${
+                      params.rangeMode === mode ? 'bg-neutral-600 text-white shadow-md' : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-700/50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {params.rangeMode === 'manual' && (
+                <div className="flex items-center gap-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                  <input
+                    type="number" step="any"
+                    value={params.rangeMin}
+                    onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) handleChange('rangeMin', v); }}
+                    className="w-full min-w-0 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+                    title="Lower end of the colour range"
+                  />
+                  <span className="text-[10px] text-neutral-500">to</span>
+                  <input
+                    type="number" step="any"
+                    value={params.rangeMax}
+                    onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) handleChange('rangeMax', v); }}
+                    className="w-full min-w-0 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+                    title="Upper end of the colour range"
+                  />
+                  <span className="text-[10px] text-neutral-500 whitespace-nowrap">{describeQuantity(params.displayQuantity, params).unit}</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <label className="text-[10px] text-neutral-400">Log scale</label>
+                <input type="checkbox" checked={params.logScale} onChange={(e) => handleChange('logScale', e.target.checked)} className="w-3.5 h-3.5 accent-emerald-500" />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-neutral-400">Color Map</label>
               <select value={params.colorMap} onChange={(e) => handleChange('colorMap', e.target.value)} className="w-full bg-neutral-700 rounded px-2 py-1.5 text-sm outline-none cursor-pointer">
                 <option value="turbo">Turbo</option>
                 <option value="jet">Jet</option>
@@ -152,6 +1319,50 @@ const Controls: React.FC<ControlsProps> = ({
                 
                 {params.showVectors && (
                     <div className="space-y-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                        <div className="grid grid-cols-3 gap-1 bg-neutral-800/50 p-1 rounded-lg border border-neutral-700">
+                            {([['arrows', 'Arrows'], ['streamlines', 'Field lines'], ['lic', 'LIC']] as const).map(([style, label]) => (
+                                <button
+                                  key={style}
+                                  onClick={() => handleChange('fieldStyle', style)}
+                                  className={`py-1 rounded-md text-[10px] uppercase font-bold transition-all ${
+                                    params.fieldStyle === style ? 'bg-neutral-600 text-white shadow-md' : 'text-neutral-500 hover:text-neutral-300 hover:bg-neutral-700/50'
+                                  }`}
+                                >
+                                  {label}
+                                </button>
+                            ))}
+                        </div>
+                        {params.fieldStyle === 'arrows' && (
+                          <div className="space-y-1">
+                             <div className="flex justify-between">
+                               <label className="text-[10px] text-neutral-400">Spacing</label>
+                               <span className="text-[10px] text-neutral-500">{params.vectorStride}</span>
+                             </div>
+                             <input type="range" min="2" max="15" step="1" value={params.vectorStride} onChange={(e) => handleChange('vectorStride', parseFloat(e.target.value))} className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400" />
+                          </div>
+                        )}
+                        {params.fieldStyle === 'streamlines' && (
+                          <div className="space-y-1">
+                             <div className="flex justify-between">
+                               <label className="text-[10px] text-neutral-400">Lines</label>
+                               <span className="text-[10px] text-neutral-500">{params.streamlineCount}</span>
+                             </div>
+                             <input type="range" min="10" max="200" step="10" value={params.streamlineCount} onChange={(e) => handleChange('streamlineCount', parseInt(e.target.value))} className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400" />
+                          </div>
+                        )}
+                        {params.fieldStyle !== 'lic' && (
+                          <div className="grid grid-cols-2 gap-2">
+                            <select value={params.vectorColorMode} onChange={(e) => handleChange('vectorColorMode', e.target.value)} className="bg-neutral-700 rounded px-2 py-1 text-[10px] outline-none cursor-pointer" title="Arrow and line colour">
+                              <option value="solid">Solid color</option>
+                              <option value="magnitude">Color by |E|</option>
+                            </select>
+                            <select value={params.vectorScale} onChange={(e) => handleChange('vectorScale', e.target.value)} className="bg-neutral-700 rounded px-2 py-1 text-[10px] outline-none cursor-pointer" title="How |E| maps to arrow length and colour">
+                              <option value="linear">Linear |E|</option>
+                              <option value="log">Log |E|</option>
+                            </select>
+                          </div>
+                        )}
+                        {params.fieldStyle !== 'lic' && params.vectorColorMode === 'solid' && (
                         <div className="flex items-center justify-between gap-2">
                             <label className="text-[10px] text-neutral-400">Color</label>
                             <div className="flex items-center gap-2 bg-neutral-700 rounded-md p-1 pr-2">
@@ -159,6 +1370,7 @@ const Controls: React.FC<ControlsProps> = ({
                                 <span className="text-[10px] font-mono uppercase">{params.vectorColor}</span>
                             </div>
                         </div>
+                        )}
                         <div className="space-y-1">
                            <div className="flex justify-between">
                              <label className="text-[10px] text-neutral-400">Opacity</label>
@@ -170,6 +1382,67 @@ const Controls: React.FC<ControlsProps> = ({
                 )}
             </div>
 
+            <div className="pt-2 border-t border-neutral-700">
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs">Show Equipotentials</span>
+                    <input type="checkbox" checked={params.showContours} onChange={(e) => handleChange('showContours', e.target.checked)} className="w-4 h-4 accent-emerald-500" />
+                </div>
+
+                {params.showContours && (
+                    <div className="space-y-2 animate-in fade-in slide-in-from-top-1 duration-200">
+                        <div className="flex items-center gap-2">
+                            <select value={params.contourMode} onChange={(e) => handleChange('contourMode', e.target.value)} className="flex-1 bg-neutral-700 rounded px-2 py-1 text-xs outline-none cursor-pointer">
+                                <option value="spacing">Every</option>
+                                <option value="count">Levels</option>
+                            </select>
+                            {params.contourMode === 'spacing' ? (
+                                <input
+                                  type="number" min="0.1" step="any"
+                                  value={params.contourSpacing}
+                                  onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) handleChange('contourSpacing', v); }}
+                                  className="w-20 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+                                  title="Voltage step between lines"
+                                />
+                            ) : (
+                                <input
+                                  type="number" min="1" max="200" step="1"
+                                  value={params.contourCount}
+                                  onChange={(e) => { const v = parseInt(e.target.value); if (v >= 1) handleChange('contourCount', v); }}
+                                  className="w-20 bg-neutral-700 rounded px-2 py-1 text-xs outline-none"
+                                  title="Number of evenly spaced levels"
+                                />
+                            )}
+                            <span className="text-[10px] text-neutral-500 w-3">{params.contourMode === 'spacing' ? 'V' : ''}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <label className="text-[10px] text-neutral-400">Voltage labels</label>
+                            <input type="checkbox" checked={params.contourLabels} onChange={(e) => handleChange('contourLabels', e.target.checked)} className="w-3.5 h-3.5 accent-emerald-500" />
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <label className="text-[10px] text-neutral-400">Color</label>
+                            <div className="flex items-center gap-2 bg-neutral-700 rounded-md p-1 pr-2">
+                                <input type="color" value={params.contourColor} onChange={(e) => handleChange('contourColor', e.target.value)} className="w-4 h-4 rounded cursor-pointer bg-transparent border-none p-0" />
+                                <span className="text-[10px] font-mono uppercase">{params.contourColor}</span>
+                            </div>
+                        </div>
+                        <div className="space-y-1">
+                           <div className="flex justify-between">
+                             <label className="text-[10px] text-neutral-400">Opacity</label>
+                             <span className="text-[10px] text-neutral-500">{Math.round(params.contourOpacity * 100)}%</span>
+                           </div>
+                           <input type="range" min="0.1" max="1" step="0.1" value={params.contourOpacity} onChange={(e) => handleChange('contourOpacity', parseFloat(e.target.value))} className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400" />
+                        </div>
+                        <div className="space-y-1">
+                           <div className="flex justify-between">
+                             <label className="text-[10px] text-neutral-400">Width</label>
+                             <span className="text-[10px] text-neutral-500">{params.contourWidth.toFixed(1)} px</span>
+                           </div>
+                           <input type="range" min="0.5" max="4" step="0.5" value={params.contourWidth} onChange={(e) => handleChange('contourWidth', parseFloat(e.target.value))} className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400" />
+                        </div>
+                    </div>
+                )}
+            </div>
+
           </div>
         </section>
       </div>
@@ -0,0 +1,75 @@
+import React from 'react';
+import { SolverStats } from '../types';
+
+interface ConvergencePlotProps {
+  history: SolverStats[];
+  tolerance: number;
+}
+
+const WIDTH = 240;
+const HEIGHT = 110;
+const PAD_LEFT = 34;
+const PAD_RIGHT = 6;
+const PAD_TOP = 6;
+const PAD_BOTTOM = 16;
+
+/**
+ * Log-scale residual vs. iteration chart for the Controls panel.
+ */
+const ConvergencePlot: React.FC<ConvergencePlotProps> = ({ history, tolerance }) => {
+  if (history.length < 2) {
+    return (
+      <div className="h-[110px] flex items-center justify-center text-[10px] text-neutral-500 italic border border-neutral-700 rounded">
+        Run the solver to record convergence
+      </div>
+    );
+  }
+
+  const plotW = WIDTH - PAD_LEFT - PAD_RIGHT;
+  const plotH = HEIGHT - PAD_TOP - PAD_BOTTOM;
+
+  const logs = history.map(s => Math.log10(Math.max(s.residual, 1e-12)));
+  const logTol = Math.log10(tolerance);
+  const minLog = Math.floor(Math.min(logTol, ...logs));
+  const maxLog = Math.ceil(Math.max(logTol, ...logs));
+  const logRange = maxLog - minLog || 1;
+
+  const firstIter = history[0].iteration;
+  const lastIter = history[history.length - 1].iteration;
+  const iterRange = lastIter - firstIter || 1;
+
+  const toX = (iteration: number) => PAD_LEFT + ((iteration - firstIter) / iterRange) * plotW;
+  const toY = (logVal: number) => PAD_TOP + (1 - (logVal - minLog) / logRange) * plotH;
+
+  const points = history.map((s, i) => `${toX(s.iteration).toFixed(1)},${toY(logs[i]).toFixed(1)}`).join(' ');
+
+  // One gridline per decade, thinned out when the range is large
+  const decadeStep = Math.max(1, Math.ceil(logRange / 4));
+  const decades: number[] = [];
+  for (let d = minLog; d <= maxLog; d += decadeStep) decades.push(d);
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} className="w-full h-auto" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+      <rect x={PAD_LEFT} y={PAD_TOP} width={plotW} height={plotH} fill="none" stroke="#404040" />
+      {decades.map(d => (
+        <g key={d}>
+          <line x1={PAD_LEFT} x2={PAD_LEFT + plotW} y1={toY(d)} y2={toY(d)} stroke="#333" strokeWidth={0.5} />
+          <text x={PAD_LEFT - 3} y={toY(d) + 3} textAnchor="end" fontSize={8} fill="#a3a3a3" fontFamily="monospace">
+            1e{d}
+          </text>
+        </g>
+      ))}
+      <line
+        x1={PAD_LEFT} x2={PAD_LEFT + plotW} y1={toY(logTol)} y2={toY(logTol)}
+        stroke="#10b981" strokeDasharray="3 2" strokeWidth={1}
+      />
+      <polyline points={points} fill="none" stroke="#f59e0b" strokeWidth={1.25} />
+      <text x={PAD_LEFT} y={HEIGHT - 4} fontSize={8} fill="#a3a3a3" fontFamily="monospace">{firstIter}</text>
+      <text x={PAD_LEFT + plotW} y={HEIGHT - 4} textAnchor="end" fontSize={8} fill="#a3a3a3" fontFamily="monospace">
+        {lastIter} it
+      </text>
+    </svg>
+  );
+};
+
+export default ConvergencePlot;
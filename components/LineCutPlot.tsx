@@ -0,0 +1,73 @@
+import React from 'react';
+import { LineCutSample } from '../services/fields';
+
+interface LineCutPlotProps {
+  samples: LineCutSample[];
+  lengthUnit: string; // Unit of the distances along the cut
+}
+
+const WIDTH = 300;
+const HEIGHT = 120;
+const PAD_LEFT = 34;
+const PAD_RIGHT = 34;
+const PAD_TOP = 6;
+const PAD_BOTTOM = 16;
+
+/**
+ * V (left axis) and |E| (right axis) along a line cut.
+ */
+const LineCutPlot: React.FC<LineCutPlotProps> = ({ samples, lengthUnit }) => {
+  if (samples.length < 2) {
+    return (
+      <div className="h-[120px] flex items-center justify-center text-[10px] text-neutral-500 italic">
+        Drag a longer segment to sample
+      </div>
+    );
+  }
+
+  const plotW = WIDTH - PAD_LEFT - PAD_RIGHT;
+  const plotH = HEIGHT - PAD_TOP - PAD_BOTTOM;
+
+  const voltages = samples.map(p => p.V);
+  const minV = Math.min(...voltages);
+  const maxV = Math.max(...voltages);
+  const vRange = maxV - minV || 1;
+  const maxE = Math.max(...samples.map(p => p.E)) || 1;
+  const length = samples[samples.length - 1].s || 1;
+
+  const toX = (s: number) => PAD_LEFT + (s / length) * plotW;
+  const toYV = (v: number) => PAD_TOP + (1 - (v - minV) / vRange) * plotH;
+  const toYE = (e: number) => PAD_TOP + (1 - e / maxE) * plotH;
+
+  const vPoints = samples.map(p => `${toX(p.s).toFixed(1)},${toYV(p.V).toFixed(1)}`).join(' ');
+  const ePoints = samples.map(p => `${toX(p.s).toFixed(1)},${toYE(p.E).toFixed(1)}`).join(' ');
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} className="w-full h-auto" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+      <rect x={PAD_LEFT} y={PAD_TOP} width={plotW} height={plotH} fill="none" stroke="#404040" />
+      <polyline points={vPoints} fill="none" stroke="#38bdf8" strokeWidth={1.25} />
+      <polyline points={ePoints} fill="none" stroke="#fbbf24" strokeWidth={1.25} />
+      {[maxV, minV].map((val, i) => (
+        <text key={i} x={PAD_LEFT - 3} y={toYV(val) + 3} textAnchor="end" fontSize={8} fill="#38bdf8" fontFamily="monospace">
+          {val.toPrecision(3)}
+        </text>
+      ))}
+      {[maxE, 0].map((val, i) => (
+        <text key={i} x={PAD_LEFT + plotW + 3} y={toYE(val) + 3} fontSize={8} fill="#fbbf24" fontFamily="monospace">
+          {val.toPrecision(2)}
+        </text>
+      ))}
+      <text x={PAD_LEFT} y={HEIGHT - 4} fontSize={8} fill="#a3a3a3" fontFamily="monospace">0</text>
+      <text x={PAD_LEFT + plotW / 2} y={HEIGHT - 4} textAnchor="middle" fontSize={8} fontFamily="monospace">
+        <tspan fill="#38bdf8">V</tspan>
+        <tspan fill="#a3a3a3"> / </tspan>
+        <tspan fill="#fbbf24">|E|</tspan>
+      </text>
+      <text x={PAD_LEFT + plotW} y={HEIGHT - 4} textAnchor="end" fontSize={8} fill="#a3a3a3" fontFamily="monospace">
+        {Number(length.toPrecision(3))} {lengthUnit}
+      </text>
+    </svg>
+  );
+};
+
+export default LineCutPlot;
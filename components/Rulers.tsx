@@ -0,0 +1,80 @@
+import React from 'react';
+import { SimulationParams } from '../types';
+import { CANVAS_SIZE, WORLD_SIZE } from '../constants';
+import { getLengthLabel, getTicks, niceStep, toDisplayLength } from '../services/units';
+import { getAxisNames } from '../services/coordinates';
+
+interface RulersProps {
+  params: SimulationParams;
+}
+
+const RULER_TICKS = 10; // Roughly how many labelled ticks along each edge
+const TICK_LENGTH = 6;
+const BAR_MARGIN = 12;
+
+/**
+ * Ticks along the top and left edges in the display length unit, named after
+ * the axes they measure, and a scale bar in the bottom-right corner. Purely
+ * decorative, so it never takes input.
+ */
+const Rulers: React.FC<RulersProps> = ({ params }) => {
+  const span = toDisplayLength(WORLD_SIZE, params);
+  const unit = getLengthLabel(params);
+  const step = niceStep(span, RULER_TICKS);
+  const ticks = getTicks(span, step / 2);
+  const toPx = (v: number) => (v / span) * CANVAS_SIZE;
+  const format = (v: number) => String(Number(v.toPrecision(4)));
+
+  const [axisH, axisV] = getAxisNames(params);
+  const bar = niceStep(span, 5);
+  const barPx = toPx(bar);
+  const barRight = CANVAS_SIZE - BAR_MARGIN;
+  const barY = CANVAS_SIZE - BAR_MARGIN;
+
+  const textStyle = {
+    fontSize: 9,
+    fontFamily: 'monospace',
+    fill: 'white',
+    stroke: 'rgba(0, 0, 0, 0.7)',
+    strokeWidth: 2,
+    paintOrder: 'stroke',
+  } as const;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full z-30 pointer-events-none" viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`}>
+      {ticks.map((t, k) => {
+        const px = toPx(t);
+        // Every other tick is a labelled major tick
+        const major = k % 2 === 0;
+        const len = major ? TICK_LENGTH : TICK_LENGTH / 2;
+        const labelled = major && t > 0 && px < CANVAS_SIZE - 20;
+        return (
+          <g key={k}>
+            <line x1={px} y1={0} x2={px} y2={len} stroke="white" strokeOpacity={0.8} />
+            <line x1={0} y1={px} x2={len} y2={px} stroke="white" strokeOpacity={0.8} />
+            {labelled && (
+              <>
+                <text x={px} y={TICK_LENGTH + 9} textAnchor="middle" style={textStyle}>{format(t)}</text>
+                <text x={TICK_LENGTH + 2} y={px + 3} textAnchor="start" style={textStyle}>{format(t)}</text>
+              </>
+            )}
+          </g>
+        );
+      })}
+
+      <text x={CANVAS_SIZE - 4} y={TICK_LENGTH + 9} textAnchor="end" style={{ ...textStyle, fontStyle: 'italic' }}>{axisH}</text>
+      <text x={TICK_LENGTH + 2} y={CANVAS_SIZE - 6} textAnchor="start" style={{ ...textStyle, fontStyle: 'italic' }}>{axisV}</text>
+
+      <g>
+        <line x1={barRight - barPx} y1={barY} x2={barRight} y2={barY} stroke="white" strokeWidth={3} />
+        <line x1={barRight - barPx} y1={barY - 4} x2={barRight - barPx} y2={barY + 2} stroke="white" />
+        <line x1={barRight} y1={barY - 4} x2={barRight} y2={barY + 2} stroke="white" />
+        <text x={barRight - barPx / 2} y={barY - 6} textAnchor="middle" style={textStyle}>
+          {format(bar)} {unit}
+        </text>
+      </g>
+    </svg>
+  );
+};
+
+export default Rulers;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ShapeGeometry } from '../types';
+
+interface ShapeOutlineProps {
+  shape: ShapeGeometry;
+  fill: string;
+  stroke: string;
+  dashed?: boolean;
+  className?: string;
+  onMouseDown?: (e: React.MouseEvent) => void;
+  onTouchStart?: (e: React.TouchEvent) => void;
+}
+
+// Outer and inner ellipse as one path, so the even-odd rule leaves the hole empty
+const ringPath = (w: number, h: number, hole: number) => {
+  const ellipse = (rx: number, ry: number) =>
+    `M ${w / 2 - rx} ${h / 2} a ${rx} ${ry} 0 1 0 ${2 * rx} 0 a ${rx} ${ry} 0 1 0 ${-2 * rx} 0 Z`;
+  return `${ellipse(w / 2, h / 2)} ${ellipse((w / 2) * hole, (h / 2) * hole)}`;
+};
+
+/**
+ * Draws a shape inside its (already positioned and rotated) box. The viewBox
+ * is the box size in world units, which maps uniformly onto the square canvas,
+ * so brush widths stay true to their world radius.
+ */
+const ShapeOutline: React.FC<ShapeOutlineProps> = ({
+  shape, fill, stroke, dashed, className, onMouseDown, onTouchStart,
+}) => {
+  const { width: w, height: h } = shape;
+  const outline = {
+    fill,
+    stroke,
+    strokeWidth: 1.5,
+    strokeDasharray: dashed ? '4 3' : undefined,
+    vectorEffect: 'non-scaling-stroke' as const,
+    className,
+    onMouseDown,
+    onTouchStart,
+  };
+  const points = (shape.points ?? []).map(p => `${p.x * w},${p.y * h}`).join(' ');
+  const hole = shape.holeRatio ?? 0;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full overflow-visible pointer-events-none"
+      viewBox={`0 0 ${w} ${h}`}
+      preserveAspectRatio="none"
+    >
+      {shape.shape === 'rect' && <rect x={0} y={0} width={w} height={h} {...outline} />}
+      {shape.shape === 'ellipse' && !hole && <ellipse cx={w / 2} cy={h / 2} rx={w / 2} ry={h / 2} {...outline} />}
+      {shape.shape === 'ellipse' && hole > 0 && <path d={ringPath(w, h, hole)} fillRule="evenodd" {...outline} />}
+      {shape.shape === 'polygon' && <polygon points={points} {...outline} />}
+      {shape.shape === 'stroke' && (
+        <polyline
+          points={points}
+          fill="none"
+          stroke={fill}
+          strokeWidth={2 * (shape.brushRadius ?? 0)}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className={className}
+          onMouseDown={onMouseDown}
+          onTouchStart={onTouchStart}
+        />
+      )}
+    </svg>
+  );
+};
+
+export default ShapeOutline;
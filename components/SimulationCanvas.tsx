@@ -1,25 +1,54 @@
-
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { CANVAS_SIZE, GRID_SIZE } from '../constants';
-import { SimulationParams, SlabState, PlateState, AppMode } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { CANVAS_SIZE, GRID_SIZE, WORLD_SIZE, STATS_INTERVAL_MS } from '../constants';
+import {
+  SimulationParams, DielectricState, PlateState, ChargeState, AppMode, SolverStats, FieldAnalysis,
+  WorkerRequest, WorkerResponse, GridDims, ToolMode, Point, ShapeGeometry, DisplayRange, ExportRequest, RecordingSettings,
+} from '../types';
 import {
   generateHeatmapData,
-  updateEpsilonGrid,
-  solveStep,
-  embedPlates,
+  getPotentialRange,
   renderVectorField,
 } from '../services/solver';
-import { GripVertical } from 'lucide-react';
+import { containsPoint, moveVertex, resizeFromCorner, strokeFromPath } from '../services/geometry';
+import { lineCutToCSV, sampleField, sampleLineCut } from '../services/fields';
+import { renderContours } from '../services/contours';
+import { renderLIC, renderStreamlines } from '../services/fieldLines';
+import { computeQuantity, createColorScale, formatQuantityValue, getDisplayRange } from '../services/quantities';
+import { collectExportData, downloadBlob, downloadFieldData } from '../services/export';
+import { FigureData, downloadFigure, renderFigureCanvas } from '../services/figure';
+import { getLengthLabel, getMetresPerUnit, toDisplayLength } from '../services/units';
+import { getAxisNames, isAxisymmetric } from '../services/coordinates';
+import { getCoefficientGrids, isCurrentMode } from '../services/physics';
+import { FrameEncoder, RECORDING_FORMATS, SWEEP_PROPERTIES, createFrameEncoder, getFrameCount, getSweepValue } from '../services/recorder';
+import ShapeOutline from './ShapeOutline';
+import LineCutPlot from './LineCutPlot';
+import Rulers from './Rulers';
+import { GripVertical, Copy, X } from 'lucide-react';
 
 interface SimulationCanvasProps {
   params: SimulationParams;
   isRunning: boolean;
-  slab: SlabState;
-  onSlabChange: (newSlab: SlabState) => void;
+  dielectrics: DielectricState[];
+  onDielectricsChange: (newDielectrics: DielectricState[]) => void;
+  selectedDielectricId: string | null;
+  onSelectDielectric: (id: string | null) => void;
   plates: PlateState[];
   onPlatesChange: (newPlates: PlateState[]) => void;
+  charges: ChargeState[];
+  onChargesChange: (newCharges: ChargeState[]) => void;
   resetTrigger: number; 
   appMode: AppMode;
+  toolMode: ToolMode;
+  onSolverStats: (stats: SolverStats) => void;
+  onAnalysis: (analysis: FieldAnalysis) => void;
+  onDisplayRange: (range: DisplayRange) => void;
+  // Called when a drag starts and ends, so its edits can be undone as one step
+  onGestureChange: (active: boolean) => void;
+  exportRequest: ExportRequest | null;
+  // Frames are captured while this is set; clearing it stops and saves early
+  recording: RecordingSettings | null;
+  onRecordingFrame: (frames: number) => void;
+  onRecordingEnd: (error: string | null) => void;
 }
 
 const isInRect = (x: number, y: number, rect: {x:number, y:number, width:number, height:number}) => {
@@ -29,56 +58,288 @@ const isInRect = (x: number, y: number, rect: {x:number, y:number, width:number,
 const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   params,
   isRunning,
-  slab,
-  onSlabChange,
+  dielectrics,
+  onDielectricsChange,
+  selectedDielectricId,
+  onSelectDielectric,
   plates,
   onPlatesChange,
+  charges,
+  onChargesChange,
   resetTrigger,
   appMode,
+  toolMode,
+  onSolverStats,
+  onAnalysis,
+  onDisplayRange,
+  onGestureChange,
+  exportRequest,
+  recording,
+  onRecordingFrame,
+  onRecordingEnd,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   
-  // Simulation memory
+  // Latest potential snapshot received from the solver worker
   const potGridRef = useRef<Float64Array>(new Float64Array(GRID_SIZE * GRID_SIZE));
-  const epsGridRef = useRef<Float32Array>(new Float32Array(GRID_SIZE * GRID_SIZE));
+  const gridRef = useRef<GridDims>({ nx: GRID_SIZE, ny: GRID_SIZE });
+  // Rasterized materials, refreshed only when the geometry changes
+  const epsXGridRef = useRef<Float32Array | null>(null);
+  const epsYGridRef = useRef<Float32Array | null>(null);
+  const sigmaGridRef = useRef<Float32Array | null>(null);
+  const rhoGridRef = useRef<Float32Array | null>(null);
+  const maskGridRef = useRef<Uint8Array | null>(null);
+  const workerRef = useRef<Worker | null>(null);
   const reqIdRef = useRef<number | null>(null);
+  const needsRenderRef = useRef(true);
+
+  // Convergence bookkeeping
+  const lastStatsTimeRef = useRef(0);
+  const onSolverStatsRef = useRef(onSolverStats);
+  onSolverStatsRef.current = onSolverStats;
+  const onAnalysisRef = useRef(onAnalysis);
+  onAnalysisRef.current = onAnalysis;
+  const onDisplayRangeRef = useRef(onDisplayRange);
+  onDisplayRangeRef.current = onDisplayRange;
+  // Colour range of the last frame, handed to the legend at the stats rate
+  const pendingRangeRef = useRef<DisplayRange | null>(null);
+  const lastRangeTimeRef = useRef(0);
+
+  // Animation capture; the encoder is created with the first frame, once its size is known
+  const recorderRef = useRef<{
+    settings: RecordingSettings;
+    encoder: FrameEncoder | null;
+    frames: number;
+    lastIteration: number;
+    // A sweep frame was taken and the next step has not reached the worker yet
+    awaitingUpdate: boolean;
+  } | null>(null);
+  // Snapshots received since the scene was last changed; the first may predate the change
+  const snapshotsSinceUpdateRef = useRef(0);
+  const recordFrameRef = useRef<(stats: SolverStats) => void>(() => {});
+  const onRecordingFrameRef = useRef(onRecordingFrame);
+  onRecordingFrameRef.current = onRecordingFrame;
+  const onRecordingEndRef = useRef(onRecordingEnd);
+  onRecordingEndRef.current = onRecordingEnd;
 
   // Interaction State
-  const [dragTarget, setDragTarget] = useState<{ type: 'slab' | 'plate', index?: number, action: 'move' | 'resize' } | null>(null);
+  const [dragTarget, setDragTarget] = useState<{ type: 'dielectric' | 'plate' | 'charge', index?: number, action: 'move' | 'resize' | 'vertex', vertex?: number } | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  // World-space path of the brush stroke being painted
+  const [brushPath, setBrushPath] = useState<Point[] | null>(null);
 
-  const initSolver = useCallback(() => {
-    potGridRef.current.fill(0);
-    // Initial embed to set up potentials
-    embedPlates(potGridRef.current, plates, params);
-    updateEpsilonGrid(epsGridRef.current, slab, params);
-  }, [params, slab, plates]);
+  const isDragging = dragTarget !== null;
+  useEffect(() => {
+    onGestureChange(isDragging);
+  }, [isDragging, onGestureChange]);
+  // Probe cursor position and the current line cut, both in world space
+  const [probePos, setProbePos] = useState<Point | null>(null);
+  const [lineCut, setLineCut] = useState<{ start: Point; end: Point } | null>(null);
+  const [isCutting, setIsCutting] = useState(false);
+
+  const postToWorker = (msg: WorkerRequest) => {
+    if (msg.type !== 'run') {
+      snapshotsSinceUpdateRef.current = 0;
+      if (recorderRef.current) recorderRef.current.awaitingUpdate = false;
+    }
+    workerRef.current?.postMessage(msg);
+  };
 
+  // The solver lives in a worker so dragging stays smooth while it relaxes
   useEffect(() => {
-    initSolver();
+    const worker = new Worker(new URL('../services/solver.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'materials') {
+        epsXGridRef.current = msg.epsX;
+        epsYGridRef.current = msg.epsY;
+        sigmaGridRef.current = msg.sigma;
+        rhoGridRef.current = msg.rho;
+        maskGridRef.current = msg.mask;
+        needsRenderRef.current = true;
+        return;
+      }
+      potGridRef.current = msg.pot;
+      gridRef.current = msg.grid;
+      needsRenderRef.current = true;
+      snapshotsSinceUpdateRef.current++;
+      recordFrameRef.current(msg.stats);
+
+      // Throttle stats so the React tree is not re-rendered on every snapshot.
+      // Results of a fresh reset are always passed on so they never go stale.
+      const now = performance.now();
+      if (msg.stats.iteration === 0) {
+        onAnalysisRef.current(msg.analysis);
+      } else if (now - lastStatsTimeRef.current >= STATS_INTERVAL_MS) {
+        lastStatsTimeRef.current = now;
+        onSolverStatsRef.current(msg.stats);
+        onAnalysisRef.current(msg.analysis);
+      }
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Keep the worker's copy of the scene in sync
+  useEffect(() => {
+    postToWorker({ type: 'update', scene: { params } });
+  }, [params]);
+
+  useEffect(() => {
+    postToWorker({ type: 'update', scene: { dielectrics } });
+  }, [dielectrics]);
+
+  useEffect(() => {
+    postToWorker({ type: 'update', scene: { plates } });
+  }, [plates]);
+
+  useEffect(() => {
+    postToWorker({ type: 'update', scene: { charges } });
+  }, [charges]);
+
+  useEffect(() => {
+    postToWorker({ type: 'reset' });
   }, [resetTrigger]);
 
   useEffect(() => {
-    updateEpsilonGrid(epsGridRef.current, slab, params);
-  }, [slab, params.epsilonSlab, params.epsilonBg]);
+    postToWorker({ type: 'run', running: isRunning });
+  }, [isRunning]);
 
-  // The Game Loop
+  // The latest snapshot as a figure, or null while the materials lag behind a resize
+  const getFigureData = (): FigureData | null => {
+    const pot = potGridRef.current;
+    const grid = gridRef.current;
+    const epsX = epsXGridRef.current;
+    const epsY = epsYGridRef.current;
+    const sigma = sigmaGridRef.current;
+    const rho = rhoGridRef.current;
+    const mask = maskGridRef.current;
+    if (!epsX || !epsY || !sigma || !rho || !mask || epsX.length !== pot.length) return null;
+    const values = computeQuantity(params.displayQuantity, pot, epsX, epsY, sigma, grid, params);
+    const range = getDisplayRange(values, params, getPotentialRange(plates, params));
+    return {
+      potGrid: pot, grid, values, range, epsXGrid: epsX, epsYGrid: epsY, sigmaGrid: sigma, rhoGrid: rho, maskGrid: mask,
+      params, plates, dielectrics, charges,
+    };
+  };
+
+  // Save the latest snapshot
   useEffect(() => {
-    const loop = () => {
-      // Only run the solver if the simulation is explicitly running
-      if (isRunning) {
-        solveStep(potGridRef.current, epsGridRef.current, plates, params);
+    if (!exportRequest) return;
+    const data = getFigureData();
+    if (!data) return;
+    if (exportRequest.kind === 'data') {
+      downloadFieldData(collectExportData(data.potGrid, data.grid, data.epsXGrid, data.epsYGrid, data.sigmaGrid, data.rhoGrid, data.params), exportRequest.format);
+    } else {
+      downloadFigure(data, exportRequest.format, { title: exportRequest.title, scale: exportRequest.scale });
+    }
+  }, [exportRequest]);
+
+  const finishRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    let error: string | null = null;
+    try {
+      if (recorder.encoder) {
+        const blob = await recorder.encoder.finish();
+        downloadBlob(blob, `em-sandbox-recording.${RECORDING_FORMATS[recorder.settings.format].extension}`);
       }
-      
-      if (canvasRef.current) {
+    } catch (err) {
+      error = `Encoding failed: ${(err as Error).message}`;
+    }
+    onRecordingEndRef.current(error);
+  };
+
+  /**
+   * Called for every snapshot while recording. Relaxation runs take a frame
+   * every `iterationStep` iterations; sweeps take one once the current step
+   * has converged, and the parent then moves the scene on to the next step.
+   */
+  recordFrameRef.current = (stats: SolverStats) => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    const { settings } = recorder;
+    if (settings.mode === 'iterations') {
+      // A reset restarts the count, so a lower iteration also takes a frame
+      const sinceLast = stats.iteration - recorder.lastIteration;
+      if (recorder.frames > 0 && sinceLast >= 0 && sinceLast < settings.iterationStep) return;
+    } else if (recorder.awaitingUpdate || snapshotsSinceUpdateRef.current < 2 || stats.residual >= params.tolerance) {
+      return;
+    }
+    const data = getFigureData();
+    if (!data) return;
+
+    let title = `Iteration ${stats.iteration}`;
+    if (settings.mode === 'sweep') {
+      const { kind, targetId, property } = settings.sweep;
+      const target = kind === 'dielectric' ? dielectrics.find(d => d.id === targetId)
+        : kind === 'plate' ? plates.find(p => p.id === targetId) : null;
+      const label = SWEEP_PROPERTIES[kind].find(p => p.property === property)?.label ?? property;
+      title = `${target?.label ?? 'Charge'} ${label}: ${formatQuantityValue(getSweepValue(settings, recorder.frames))}`;
+    }
+
+    let error: string | null = null;
+    try {
+      const frame = renderFigureCanvas(data, { title, scale: 1 });
+      recorder.encoder ??= createFrameEncoder(settings.format, frame.width, frame.height, settings.fps);
+      recorder.encoder.addFrame(frame);
+    } catch (err) {
+      error = (err as Error).message;
+    }
+    if (error) {
+      recorderRef.current = null;
+      onRecordingEndRef.current(`Recording failed: ${error}`);
+      return;
+    }
+
+    recorder.frames++;
+    recorder.lastIteration = stats.iteration;
+    recorder.awaitingUpdate = settings.mode === 'sweep';
+    onRecordingFrameRef.current(recorder.frames);
+    if (recorder.frames >= getFrameCount(settings)) finishRecording();
+  };
+
+  useEffect(() => {
+    if (recording && !recorderRef.current) {
+      recorderRef.current = { settings: recording, encoder: null, frames: 0, lastIteration: 0, awaitingUpdate: false };
+    } else if (!recording) {
+      finishRecording();
+    }
+  }, [recording]);
+
+  // The Render Loop (draws the latest snapshot; solving happens in the worker)
+  useEffect(() => {
+    needsRenderRef.current = true;
+    const potentialRange = getPotentialRange(plates, params);
+
+    const loop = () => {
+      const epsXGrid = epsXGridRef.current;
+      const epsYGrid = epsYGridRef.current;
+      const sigmaGrid = sigmaGridRef.current;
+      // Derived quantities need the materials of the current grid
+      const quantityReady = params.displayQuantity === 'potential' ||
+        (!!epsXGrid && !!epsYGrid && !!sigmaGrid && epsXGrid.length === potGridRef.current.length);
+
+      if (needsRenderRef.current && canvasRef.current && quantityReady) {
         const ctx = canvasRef.current.getContext('2d');
         if (ctx) {
-          const imgData = generateHeatmapData(potGridRef.current, params);
+          needsRenderRef.current = false;
+          const grid = gridRef.current;
+          const values = epsXGrid && epsYGrid && sigmaGrid && params.displayQuantity !== 'potential'
+            ? computeQuantity(params.displayQuantity, potGridRef.current, epsXGrid, epsYGrid, sigmaGrid, grid, params)
+            : potGridRef.current;
+          const range = getDisplayRange(values, params, potentialRange);
+          pendingRangeRef.current = range;
+          const imgData = generateHeatmapData(values, grid, params, createColorScale(range).normalize);
           
           const tempCanvas = document.createElement('canvas');
-          tempCanvas.width = GRID_SIZE;
-          tempCanvas.height = GRID_SIZE;
+          tempCanvas.width = grid.nx;
+          tempCanvas.height = grid.ny;
           const tempCtx = tempCanvas.getContext('2d');
           tempCtx?.putImageData(imgData, 0, 0);
 
@@ -86,12 +347,42 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
           ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
           ctx.drawImage(tempCanvas, 0, 0, CANVAS_SIZE, CANVAS_SIZE);
 
+          if (params.showContours) {
+            renderContours(ctx, potGridRef.current, grid, CANVAS_SIZE, CANVAS_SIZE, params);
+          }
+
           if (params.showVectors) {
-            renderVectorField(ctx, potGridRef.current, CANVAS_SIZE, CANVAS_SIZE, params);
+            const pot = potGridRef.current;
+            const epsX = epsXGridRef.current;
+            const epsY = epsYGridRef.current;
+            const sigma = sigmaGridRef.current;
+            const rho = rhoGridRef.current;
+            const mask = maskGridRef.current;
+            // Materials arrive separately, so skip a frame where they lag behind a resize
+            const materialsReady = !!(epsX && epsY && sigma && rho && mask) && mask.length === pot.length;
+
+            if (params.fieldStyle === 'streamlines') {
+              if (materialsReady) {
+                // Seeded by flux: D lines, or current lines in current mode
+                const [coefX, coefY] = getCoefficientGrids(params, epsX, epsY, sigma);
+                renderStreamlines(ctx, pot, coefX, coefY, mask, rho, grid, CANVAS_SIZE, CANVAS_SIZE, params);
+              }
+            } else if (params.fieldStyle === 'lic') {
+              renderLIC(ctx, pot, materialsReady ? mask : null, grid, CANVAS_SIZE, CANVAS_SIZE, params);
+            } else {
+              renderVectorField(ctx, pot, grid, CANVAS_SIZE, CANVAS_SIZE, params);
+            }
           }
         }
       }
 
+      const now = performance.now();
+      if (pendingRangeRef.current && now - lastRangeTimeRef.current >= STATS_INTERVAL_MS) {
+        lastRangeTimeRef.current = now;
+        onDisplayRangeRef.current(pendingRangeRef.current);
+        pendingRangeRef.current = null;
+      }
+
       reqIdRef.current = requestAnimationFrame(loop);
     };
 
@@ -99,7 +390,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     return () => {
       if (reqIdRef.current) cancelAnimationFrame(reqIdRef.current);
     };
-  }, [isRunning, params, dragTarget, plates]);
+  }, [params, plates]);
 
 
   // --- Interaction Handlers ---
@@ -110,17 +401,28 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
     const clientX = 'touches' in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX;
     const clientY = 'touches' in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY;
     
-    const x = ((clientX - rect.left) / rect.width) * GRID_SIZE;
-    const y = ((clientY - rect.top) / rect.height) * GRID_SIZE;
+    const x = ((clientX - rect.left) / rect.width) * WORLD_SIZE;
+    const y = ((clientY - rect.top) / rect.height) * WORLD_SIZE;
     return { x, y };
   };
 
   const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
     const pos = getGridPos(e);
+
+    if (toolMode === 'brush') {
+      setBrushPath([pos]);
+      return;
+    }
+    if (toolMode === 'linecut') {
+      setLineCut({ start: pos, end: pos });
+      setIsCutting(true);
+      return;
+    }
+    if (toolMode === 'probe') return;
     
     // Check Plates (Only in Free Mode)
     if (appMode === 'free') {
-      const hitPlateIdx = plates.findIndex(p => isInRect(pos.x, pos.y, p));
+      const hitPlateIdx = plates.findIndex(p => containsPoint(p, pos.x, pos.y));
       if (hitPlateIdx >= 0) {
         setDragTarget({ type: 'plate', index: hitPlateIdx, action: 'move' });
         setDragOffset({ x: pos.x - plates[hitPlateIdx].x, y: pos.y - plates[hitPlateIdx].y });
@@ -128,30 +430,70 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       }
     }
 
-    // Check Slab
-    if (isInRect(pos.x, pos.y, slab)) {
-      setDragTarget({ type: 'slab', action: 'move' });
-      setDragOffset({ x: pos.x - slab.x, y: pos.y - slab.y });
+    // Check Charges (drawn above the dielectrics)
+    const hitChargeIdx = charges.findIndex(c => isInRect(pos.x, pos.y, c));
+    if (hitChargeIdx >= 0) {
+      setDragTarget({ type: 'charge', index: hitChargeIdx, action: 'move' });
+      setDragOffset({ x: pos.x - charges[hitChargeIdx].x, y: pos.y - charges[hitChargeIdx].y });
+      return;
+    }
+
+    // Check Dielectrics, topmost (last in the list) first
+    let hitDielectricIdx = -1;
+    for (let i = dielectrics.length - 1; i >= 0; i--) {
+      if (containsPoint(dielectrics[i], pos.x, pos.y)) { hitDielectricIdx = i; break; }
     }
+    if (hitDielectricIdx >= 0) {
+      startDielectricDrag(hitDielectricIdx, pos);
+    } else {
+      onSelectDielectric(null);
+    }
+  };
+
+  const startDielectricDrag = (index: number, pos: { x: number; y: number }) => {
+    const dielectric = dielectrics[index];
+    onSelectDielectric(dielectric.id);
+    setDragTarget({ type: 'dielectric', index, action: 'move' });
+    setDragOffset({ x: pos.x - dielectric.x, y: pos.y - dielectric.y });
   };
 
   const handlePointerMove = (e: React.MouseEvent | React.TouchEvent) => {
+    if (brushPath) {
+      const pos = getGridPos(e);
+      const last = brushPath[brushPath.length - 1];
+      // Sample the path at half the brush radius; finer steps add nothing
+      if (Math.hypot(pos.x - last.x, pos.y - last.y) >= params.brushRadius / 2) {
+        setBrushPath([...brushPath, pos]);
+      }
+      return;
+    }
+    if (toolMode === 'probe') {
+      setProbePos(getGridPos(e));
+      return;
+    }
+    if (isCutting && lineCut) {
+      setLineCut({ ...lineCut, end: getGridPos(e) });
+      return;
+    }
     if (!dragTarget) return;
     
     const pos = getGridPos(e);
     
-    if (dragTarget.type === 'slab') {
-      const newSlab = { ...slab };
+    if (dragTarget.type === 'dielectric' && dragTarget.index !== undefined) {
+      const dielectricIndex = dragTarget.index;
+      const dielectric = dielectrics[dielectricIndex];
+      const newDielectrics = [...dielectrics];
+
       if (dragTarget.action === 'resize') {
-        newSlab.width = Math.max(5, pos.x - slab.x);
-        newSlab.height = Math.max(5, pos.y - slab.y);
+         newDielectrics[dielectricIndex] = resizeFromCorner(dielectric, pos.x, pos.y, 5, 5);
+      } else if (dragTarget.action === 'vertex' && dragTarget.vertex !== undefined) {
+         newDielectrics[dielectricIndex] = moveVertex(dielectric, dragTarget.vertex, pos.x, pos.y);
       } else {
-        const newX = Math.max(0, Math.min(GRID_SIZE - slab.width, pos.x - dragOffset.x));
-        const newY = Math.max(0, Math.min(GRID_SIZE - slab.height, pos.y - dragOffset.y));
-        newSlab.x = newX;
-        newSlab.y = newY;
+         const newX = Math.max(0, Math.min(WORLD_SIZE - dielectric.width, pos.x - dragOffset.x));
+         const newY = Math.max(0, Math.min(WORLD_SIZE - dielectric.height, pos.y - dragOffset.y));
+         newDielectrics[dielectricIndex] = { ...dielectric, x: newX, y: newY };
       }
-      onSlabChange(newSlab);
+      onDielectricsChange(newDielectrics);
     } 
     else if (dragTarget.type === 'plate' && dragTarget.index !== undefined) {
       const plateIndex = dragTarget.index;
@@ -159,31 +501,113 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       const newPlates = [...plates];
       
       if (dragTarget.action === 'resize') {
-         newPlates[plateIndex] = {
-             ...plate,
-             width: Math.max(2, pos.x - plate.x),
-             height: Math.max(1, pos.y - plate.y)
-         };
+         newPlates[plateIndex] = resizeFromCorner(plate, pos.x, pos.y, 2, 1);
+      } else if (dragTarget.action === 'vertex' && dragTarget.vertex !== undefined) {
+         newPlates[plateIndex] = moveVertex(plate, dragTarget.vertex, pos.x, pos.y);
       } else {
-         const newX = Math.max(0, Math.min(GRID_SIZE - plate.width, pos.x - dragOffset.x));
-         const newY = Math.max(0, Math.min(GRID_SIZE - plate.height, pos.y - dragOffset.y));
+         const newX = Math.max(0, Math.min(WORLD_SIZE - plate.width, pos.x - dragOffset.x));
+         const newY = Math.max(0, Math.min(WORLD_SIZE - plate.height, pos.y - dragOffset.y));
          newPlates[plateIndex] = { ...plate, x: newX, y: newY };
       }
       onPlatesChange(newPlates);
     }
+    else if (dragTarget.type === 'charge' && dragTarget.index !== undefined) {
+      const chargeIndex = dragTarget.index;
+      const charge = charges[chargeIndex];
+      const newCharges = [...charges];
+
+      if (dragTarget.action === 'resize') {
+         newCharges[chargeIndex] = {
+             ...charge,
+             width: Math.max(1, pos.x - charge.x),
+             height: Math.max(1, pos.y - charge.y)
+         };
+      } else {
+         const newX = Math.max(0, Math.min(WORLD_SIZE - charge.width, pos.x - dragOffset.x));
+         const newY = Math.max(0, Math.min(WORLD_SIZE - charge.height, pos.y - dragOffset.y));
+         newCharges[chargeIndex] = { ...charge, x: newX, y: newY };
+      }
+      onChargesChange(newCharges);
+    }
   };
 
   const handlePointerUp = () => {
     setDragTarget(null);
+    setIsCutting(false);
+    if (brushPath) {
+      finishStroke(brushPath);
+      setBrushPath(null);
+    }
+  };
+
+  // Turns a finished brush path into a new dielectric or conductor
+  const finishStroke = (path: Point[]) => {
+    // A single click still paints a dot, so give the path a second point
+    const stroke = strokeFromPath(path.length > 1 ? path : [path[0], path[0]], params.brushRadius);
+    const id = Date.now().toString(36);
+
+    if (params.brushTarget === 'conductor') {
+      onPlatesChange([...plates, {
+        ...stroke, id: `plate-${id}`, label: `C${plates.length + 1}`, voltage: params.brushVoltage, floating: false, charge: 0,
+      }]);
+    } else {
+      onDielectricsChange([...dielectrics, {
+        ...stroke, id: `dielectric-${id}`, label: `D${dielectrics.length + 1}`,
+        epsilon: params.brushEpsilon, anisotropic: false, epsilonY: params.brushEpsilon, conductivity: 0,
+      }]);
+      onSelectDielectric(`dielectric-${id}`);
+    }
   };
 
   const getStyle = (obj: {x:number, y:number, width:number, height:number}) => ({
-    left: `${(obj.x / GRID_SIZE) * 100}%`,
-    top: `${(obj.y / GRID_SIZE) * 100}%`,
-    width: `${(obj.width / GRID_SIZE) * 100}%`,
-    height: `${(obj.height / GRID_SIZE) * 100}%`,
+    left: `${(obj.x / WORLD_SIZE) * 100}%`,
+    top: `${(obj.y / WORLD_SIZE) * 100}%`,
+    width: `${(obj.width / WORLD_SIZE) * 100}%`,
+    height: `${(obj.height / WORLD_SIZE) * 100}%`,
   });
 
+  // Box placement plus rotation about its centre, shared by every shaped object
+  const getShapeStyle = (obj: ShapeGeometry) => ({
+    ...getStyle(obj),
+    transform: obj.rotation ? `rotate(${obj.rotation}deg)` : undefined,
+  });
+
+  const renderVertexHandles = (obj: ShapeGeometry, type: 'dielectric' | 'plate', index: number) =>
+    obj.shape === 'polygon' && (obj.points ?? []).map((p, vertex) => {
+      const startDrag = (e: React.MouseEvent | React.TouchEvent) => {
+        e.stopPropagation();
+        setDragTarget({ type, index, action: 'vertex', vertex });
+      };
+      return (
+        <div
+          key={vertex}
+          className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full bg-white border border-neutral-800 cursor-crosshair pointer-events-auto"
+          style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+          onMouseDown={startDrag}
+          onTouchStart={startDrag}
+        />
+      );
+    });
+
+  // Readouts are taken from the latest snapshot on every render; the parent
+  // re-renders with each throttled stats update, which keeps them live
+  const epsXGrid = epsXGridRef.current;
+  const epsYGrid = epsYGridRef.current;
+  const sigmaGrid = sigmaGridRef.current;
+  const probe = toolMode === 'probe' && probePos && epsXGrid && epsYGrid && sigmaGrid && epsXGrid.length === potGridRef.current.length
+    ? sampleField(potGridRef.current, epsXGrid, epsYGrid, sigmaGrid, gridRef.current, probePos)
+    : null;
+  // Readouts are in the display length unit, with fields in V/m
+  const metresPerUnit = getMetresPerUnit(params);
+  const lengthLabel = getLengthLabel(params);
+  const [axisH, axisV] = getAxisNames(params);
+  const formatPoint = (p: Point) =>
+    `${axisH}, ${axisV} = (${Number(toDisplayLength(p.x, params).toPrecision(4))}, ${Number(toDisplayLength(p.y, params).toPrecision(4))}) ${lengthLabel}`;
+  const lineCutSamples = toolMode === 'linecut' && lineCut
+    ? sampleLineCut(potGridRef.current, gridRef.current, lineCut.start, lineCut.end)
+      .map(p => ({ s: toDisplayLength(p.s, params), V: p.V, E: p.E / metresPerUnit }))
+    : null;
+
   return (
     <div 
       className="relative select-none shadow-2xl rounded-lg overflow-hidden bg-black touch-none"
@@ -192,7 +616,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       onMouseDown={handlePointerDown}
       onMouseMove={handlePointerMove}
       onMouseUp={handlePointerUp}
-      onMouseLeave={handlePointerUp}
+      onMouseLeave={() => { handlePointerUp(); setProbePos(null); }}
       onTouchStart={handlePointerDown}
       onTouchMove={handlePointerMove}
       onTouchEnd={handlePointerUp}
@@ -205,65 +629,237 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       />
 
       {/* Plates Layer */}
-      {plates.map((plate, idx) => (
+      {plates.map((plate, idx) => {
+        const startDrag = (e: React.MouseEvent | React.TouchEvent) => {
+          if (appMode !== 'free') return;
+          e.stopPropagation();
+          setDragTarget({ type: 'plate', index: idx, action: 'move' });
+          setDragOffset({ x: getGridPos(e).x - plate.x, y: getGridPos(e).y - plate.y });
+        };
+        return (
+          <div
+            key={plate.id}
+            className="absolute z-20 pointer-events-none"
+            style={getShapeStyle(plate)}
+            title={plate.floating ? `${plate.label} (floating)` : `${plate.label}: ${plate.voltage} V`}
+          >
+            <ShapeOutline
+              shape={plate}
+              fill={plate.floating
+                ? 'rgba(163, 163, 163, 0.5)'
+                : plate.voltage > 0 ? 'rgba(239, 68, 68, 0.5)' : 'rgba(59, 130, 246, 0.5)'}
+              stroke="rgba(255, 255, 255, 0.6)"
+              className={`pointer-events-auto ${appMode === 'free' ? 'cursor-move hover:stroke-white' : ''}`}
+              onMouseDown={startDrag}
+              onTouchStart={startDrag}
+            />
+            <span className="absolute left-1 top-0 text-[9px] leading-none text-white/80 font-mono pointer-events-none whitespace-nowrap">
+              {plate.label}
+            </span>
+            {/* Plate Resize Handle and vertices (Only in free mode) */}
+            {appMode === 'free' && (
+              <>
+                <div
+                  className="absolute bottom-0 right-0 w-4 h-4 bg-white/50 hover:bg-white cursor-nwse-resize opacity-0 hover:opacity-100 pointer-events-auto"
+                  onMouseDown={(e) => { e.stopPropagation(); setDragTarget({ type: 'plate', index: idx, action: 'resize' }); }}
+                  onTouchStart={(e) => { e.stopPropagation(); setDragTarget({ type: 'plate', index: idx, action: 'resize' }); }}
+                />
+                {renderVertexHandles(plate, 'plate', idx)}
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Dielectrics Layer (list order is stacking order) */}
+      {dielectrics.map((dielectric, idx) => {
+        const selected = dielectric.id === selectedDielectricId;
+        const startDrag = (e: React.MouseEvent | React.TouchEvent) => {
+          e.stopPropagation();
+          startDielectricDrag(idx, getGridPos(e));
+        };
+        const dragging = dragTarget?.type === 'dielectric' && dragTarget.index === idx;
+        return (
+          <div
+            key={dielectric.id}
+            className="absolute z-10 group pointer-events-none"
+            style={getShapeStyle(dielectric)}
+          >
+            <ShapeOutline
+              shape={dielectric}
+              fill={dragging ? 'rgba(255, 255, 255, 0.2)' : 'rgba(255, 255, 255, 0.1)'}
+              stroke={selected ? 'rgba(255, 255, 255, 1)' : 'rgba(255, 255, 255, 0.5)'}
+              className="pointer-events-auto cursor-move hover:stroke-white"
+              onMouseDown={startDrag}
+              onTouchStart={startDrag}
+            />
+            <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+               <GripVertical className="text-white/80 drop-shadow-md" />
+            </div>
+            <div
+              className="absolute bottom-0 right-0 w-6 h-6 bg-white/50 hover:bg-white cursor-nwse-resize rounded-tl-lg pointer-events-auto"
+              onMouseDown={(e) => { e.stopPropagation(); onSelectDielectric(dielectric.id); setDragTarget({ type: 'dielectric', index: idx, action: 'resize' }); }}
+              onTouchStart={(e) => { e.stopPropagation(); onSelectDielectric(dielectric.id); setDragTarget({ type: 'dielectric', index: idx, action: 'resize' }); }}
+            />
+            {selected && renderVertexHandles(dielectric, 'dielectric', idx)}
+            <div className="absolute -top-6 left-0 text-xs font-mono text-white/80 bg-black/50 px-1 rounded pointer-events-none whitespace-nowrap">
+               {isCurrentMode(params)
+                 ? <>σ = {dielectric.conductivity} S/m</>
+                 : dielectric.anisotropic
+                   ? <>εx = {dielectric.epsilon}, εy = {dielectric.epsilonY}</>
+                   : <>ε = {dielectric.epsilon}</>}
+            </div>
+          </div>
+        );
+      })}
+      
+      {/* Charges Layer */}
+      {charges.map((charge, idx) => {
+        const positive = charge.value >= 0;
+        const startDrag = (e: React.MouseEvent | React.TouchEvent) => {
+          e.stopPropagation();
+          setDragTarget({ type: 'charge', index: idx, action: 'move' });
+          setDragOffset({ x: getGridPos(e).x - charge.x, y: getGridPos(e).y - charge.y });
+        };
+        if (charge.kind === 'point') {
+          return (
+            <div
+              key={charge.id}
+              className={`absolute z-30 flex items-center justify-center rounded-full border border-white/80 cursor-move text-[10px] font-bold text-white shadow-md
+                ${positive ? 'bg-red-500/80' : 'bg-blue-500/80'}
+              `}
+              style={{ ...getStyle(charge), minWidth: 14, minHeight: 14 }}
+              onMouseDown={startDrag}
+              onTouchStart={startDrag}
+            >
+              {positive ? '+' : '−'}
+            </div>
+          );
+        }
+        return (
+          <div
+            key={charge.id}
+            className={`absolute z-20 border border-dashed cursor-move
+              ${positive ? 'border-red-300 bg-red-500/20' : 'border-blue-300 bg-blue-500/20'}
+            `}
+            style={getStyle(charge)}
+            onMouseDown={startDrag}
+            onTouchStart={startDrag}
+          >
+            <div
+              className="absolute bottom-0 right-0 w-4 h-4 bg-white/50 hover:bg-white cursor-nwse-resize opacity-0 hover:opacity-100"
+              onMouseDown={(e) => { e.stopPropagation(); setDragTarget({ type: 'charge', index: idx, action: 'resize' }); }}
+              onTouchStart={(e) => { e.stopPropagation(); setDragTarget({ type: 'charge', index: idx, action: 'resize' }); }}
+            />
+          </div>
+        );
+      })}
+
+      {isAxisymmetric(params) && (
+        <div className="absolute inset-y-0 left-0 z-30 border-l-2 border-dashed border-white/70 pointer-events-none" title="Symmetry axis (r = 0)" />
+      )}
+      {params.showRulers && <Rulers params={params} />}
+
+      {/* Tool layer: swallows object interaction and previews strokes and cuts */}
+      {toolMode !== 'select' && (
+        <svg className="absolute inset-0 w-full h-full z-40 cursor-crosshair" viewBox={`0 0 ${WORLD_SIZE} ${WORLD_SIZE}`}>
+          {toolMode === 'linecut' && lineCut && (
+            <>
+              <line
+                x1={lineCut.start.x} y1={lineCut.start.y} x2={lineCut.end.x} y2={lineCut.end.y}
+                stroke="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke"
+              />
+              <circle cx={lineCut.start.x} cy={lineCut.start.y} r={0.8} fill="white" />
+              <circle cx={lineCut.end.x} cy={lineCut.end.y} r={0.8} fill="#fbbf24" />
+            </>
+          )}
+          {toolMode === 'brush' && brushPath && (
+            <polyline
+              points={brushPath.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke={params.brushTarget === 'conductor' ? 'rgba(239, 68, 68, 0.6)' : 'rgba(255, 255, 255, 0.4)'}
+              strokeWidth={2 * params.brushRadius}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          )}
+        </svg>
+      )}
+
+      {/* Probe readout follows the cursor, flipping sides near the edges */}
+      {probe && probePos && (
         <div
-          key={plate.id}
-          className={`absolute border border-white/60 transition-colors z-20 
-             ${appMode === 'free' ? 'cursor-move hover:border-white' : ''}
-          `}
+          className="absolute z-50 bg-black/80 text-white px-2 py-1.5 rounded text-[10px] font-mono pointer-events-none border border-white/10 leading-snug whitespace-pre"
           style={{
-             ...getStyle(plate),
-             backgroundColor: params[plate.voltageParam] > 0 ? 'rgba(239, 68, 68, 0.5)' : 'rgba(59, 130, 246, 0.5)' 
-          }}
-          onMouseDown={(e) => { 
-             if(appMode !== 'free') return;
-             e.stopPropagation(); 
-             setDragTarget({ type: 'plate', index: idx, action: 'move' }); 
-             setDragOffset({ x: getGridPos(e).x - plate.x, y: getGridPos(e).y - plate.y}); 
-          }}
-          onTouchStart={(e) => { 
-             if(appMode !== 'free') return;
-             e.stopPropagation(); 
-             setDragTarget({ type: 'plate', index: idx, action: 'move' }); 
-             setDragOffset({ x: getGridPos(e).x - plate.x, y: getGridPos(e).y - plate.y}); 
+            left: `${(probePos.x / WORLD_SIZE) * 100}%`,
+            top: `${(probePos.y / WORLD_SIZE) * 100}%`,
+            transform: `translate(${probePos.x > WORLD_SIZE / 2 ? 'calc(-100% - 12px)' : '12px'}, ${probePos.y > WORLD_SIZE / 2 ? 'calc(-100% - 12px)' : '12px'})`,
           }}
         >
-           {/* Plate Resize Handle (Only in free mode) */}
-           {appMode === 'free' && (
-             <div
-              className="absolute bottom-0 right-0 w-4 h-4 bg-white/50 hover:bg-white cursor-nwse-resize opacity-0 hover:opacity-100"
-              onMouseDown={(e) => { e.stopPropagation(); setDragTarget({ type: 'plate', index: idx, action: 'resize' }); }}
-              onTouchStart={(e) => { e.stopPropagation(); setDragTarget({ type: 'plate', index: idx, action: 'resize' }); }}
-            />
-           )}
-        </div>
-      ))}
-
-      {/* Slab Layer */}
-      <div
-        className={`absolute border-2 border-white/50 bg-white/10 backdrop-blur-[1px] cursor-move group hover:border-white transition-colors z-10
-          ${dragTarget?.type === 'slab' ? 'border-white bg-white/20' : ''}
-        `}
-        style={getStyle(slab)}
-        onMouseDown={(e) => { e.stopPropagation(); setDragTarget({ type: 'slab', action: 'move' }); setDragOffset({ x: getGridPos(e).x - slab.x, y: getGridPos(e).y - slab.y}); }}
-        onTouchStart={(e) => { e.stopPropagation(); setDragTarget({ type: 'slab', action: 'move' }); setDragOffset({ x: getGridPos(e).x - slab.x, y: getGridPos(e).y - slab.y}); }}
-      >
-        <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-           <GripVertical className="text-white/80 drop-shadow-md" />
+          <div>{formatPoint(probePos)}</div>
+          <div>V   = {probe.V.toFixed(2)} V</div>
+          <div>E{axisH}  = {(probe.Ex / metresPerUnit).toPrecision(4)} V/m</div>
+          <div>E{axisV}  = {(probe.Ey / metresPerUnit).toPrecision(4)} V/m</div>
+          <div>|E| = {(probe.E / metresPerUnit).toPrecision(4)} V/m</div>
+          {isCurrentMode(params) ? (
+            <>
+              <div>σ   = {probe.sigma.toPrecision(3)} S/m</div>
+              <div>|J| = {(probe.J / metresPerUnit).toPrecision(4)} A/m²</div>
+            </>
+          ) : (
+            <>
+              <div>
+                {probe.epsX === probe.epsY
+                  ? <>ε   = {probe.epsX.toPrecision(3)}</>
+                  : <>ε   = {probe.epsX.toPrecision(3)}, {probe.epsY.toPrecision(3)}</>}
+              </div>
+              <div>|D|/ε₀ = {(probe.D / metresPerUnit).toPrecision(4)} V/m</div>
+            </>
+          )}
         </div>
+      )}
+
+      {/* Line cut profile */}
+      {lineCutSamples && !isCutting && (
         <div
-          className="absolute bottom-0 right-0 w-6 h-6 bg-white/50 hover:bg-white cursor-nwse-resize rounded-tl-lg"
-          onMouseDown={(e) => { e.stopPropagation(); setDragTarget({ type: 'slab', action: 'resize' }); }}
-          onTouchStart={(e) => { e.stopPropagation(); setDragTarget({ type: 'slab', action: 'resize' }); }}
-        />
-        <div className="absolute -top-6 left-0 text-xs font-mono text-white/80 bg-black/50 px-1 rounded pointer-events-none whitespace-nowrap">
-           ε = {params.epsilonSlab}
+          className="absolute z-50 bottom-2 left-2 right-2 bg-black/80 rounded-lg border border-white/10 p-2 backdrop-blur-sm"
+          onMouseDown={(e) => e.stopPropagation()}
+          onTouchStart={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between mb-1 text-[10px] font-mono text-neutral-400">
+            <span>
+              {lineCut && `${formatPoint(lineCut.start)} → ${formatPoint(lineCut.end)}`}
+            </span>
+            <div className="flex gap-1">
+              <button
+                onClick={() => navigator.clipboard?.writeText(lineCutToCSV(lineCutSamples, lengthLabel, 'V/m'))}
+                className="flex items-center gap-1 px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700 text-neutral-300"
+                title="Copy samples as CSV (s, V, |E|)"
+              >
+                <Copy size={10} /> CSV
+              </button>
+              <button
+                onClick={() => setLineCut(null)}
+                className="p-0.5 rounded bg-neutral-800 hover:bg-neutral-700 text-neutral-300"
+                title="Clear line cut"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          </div>
+          <LineCutPlot samples={lineCutSamples} lengthUnit={lengthLabel} />
         </div>
-      </div>
-      
-      {!isRunning && !dragTarget && (
+      )}
+
+      {!isRunning && !dragTarget && !brushPath && !probe && !lineCutSamples && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black/60 text-white px-3 py-1 rounded text-xs pointer-events-none backdrop-blur-sm border border-white/10 text-center w-max">
-          Drag dielectric or plates to move • Drag corners to resize
+          {toolMode === 'brush'
+            ? `Paint to add a ${params.brushTarget}`
+            : toolMode === 'probe'
+              ? isCurrentMode(params) ? 'Hover to read V, E, σ and J' : 'Hover to read V, E, ε and D'
+              : toolMode === 'linecut'
+                ? 'Drag a segment to plot V and |E| along it'
+                : 'Drag dielectric, plates or charges to move • Drag corners to resize'}
         </div>
       )}
     </div>
@@ -0,0 +1,61 @@
+import React from 'react';
+import { SurfaceChargeSample } from '../types';
+
+interface SurfaceChargePlotProps {
+  samples: SurfaceChargeSample[];
+  lengthUnit: string; // Unit of the distance along the perimeter
+}
+
+const WIDTH = 240;
+const HEIGHT = 110;
+const PAD_LEFT = 34;
+const PAD_RIGHT = 6;
+const PAD_TOP = 6;
+const PAD_BOTTOM = 16;
+
+/**
+ * Induced surface charge density around a conductor's perimeter.
+ */
+const SurfaceChargePlot: React.FC<SurfaceChargePlotProps> = ({ samples, lengthUnit }) => {
+  if (samples.length < 2) {
+    return (
+      <div className="h-[110px] flex items-center justify-center text-[10px] text-neutral-500 italic border border-neutral-700 rounded">
+        No exposed surface to sample
+      </div>
+    );
+  }
+
+  const plotW = WIDTH - PAD_LEFT - PAD_RIGHT;
+  const plotH = HEIGHT - PAD_TOP - PAD_BOTTOM;
+
+  const sigmas = samples.map(p => p.sigma);
+  // Always include zero so the sign of the charge is obvious at a glance
+  const minSigma = Math.min(0, ...sigmas);
+  const maxSigma = Math.max(0, ...sigmas);
+  const sigmaRange = maxSigma - minSigma || 1;
+  const perimeter = samples[samples.length - 1].s || 1;
+
+  const toX = (s: number) => PAD_LEFT + (s / perimeter) * plotW;
+  const toY = (sigma: number) => PAD_TOP + (1 - (sigma - minSigma) / sigmaRange) * plotH;
+
+  const points = samples.map(p => `${toX(p.s).toFixed(1)},${toY(p.sigma).toFixed(1)}`).join(' ');
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} className="w-full h-auto" viewBox={`0 0 ${WIDTH} ${HEIGHT}`}>
+      <rect x={PAD_LEFT} y={PAD_TOP} width={plotW} height={plotH} fill="none" stroke="#404040" />
+      <line x1={PAD_LEFT} x2={PAD_LEFT + plotW} y1={toY(0)} y2={toY(0)} stroke="#525252" strokeDasharray="3 2" strokeWidth={0.75} />
+      <polyline points={points} fill="none" stroke="#38bdf8" strokeWidth={1.25} />
+      {[maxSigma, minSigma].map((val, i) => (
+        <text key={i} x={PAD_LEFT - 3} y={toY(val) + 3} textAnchor="end" fontSize={8} fill="#a3a3a3" fontFamily="monospace">
+          {val.toPrecision(2)}
+        </text>
+      ))}
+      <text x={PAD_LEFT} y={HEIGHT - 4} fontSize={8} fill="#a3a3a3" fontFamily="monospace">0</text>
+      <text x={PAD_LEFT + plotW} y={HEIGHT - 4} textAnchor="end" fontSize={8} fill="#a3a3a3" fontFamily="monospace">
+        {Number(perimeter.toPrecision(3))} {lengthUnit} along perimeter
+      </text>
+    </svg>
+  );
+};
+
+export default SurfaceChargePlot;
@@ -1,43 +1,124 @@
 
-import { SimulationParams, SlabState, PlateState } from './types';
+import { SimulationParams, DielectricState, PlateState, ChargeState, RecordingSettings } from './types';
 
-export const GRID_SIZE = 100; // 100x100 grid
+export const WORLD_SIZE = 100; // Geometry coordinates span 0-100 on both axes
+export const GRID_SIZE = 100; // Default resolution (100x100 grid)
+export const GRID_SIZE_OPTIONS = [50, 75, 100, 150, 200, 250, 300, 400];
 export const CANVAS_SIZE = 600; // Visual size in pixels
+export const EPSILON_0 = 8.8541878128e-12; // Vacuum permittivity (F/m)
+// Current mode: insulators conduct this fraction of the best conductor (and at least MIN_CONDUCTIVITY S/m)
+export const INSULATOR_CONDUCTIVITY_RATIO = 1e-6;
+export const MIN_CONDUCTIVITY = 1e-12;
 
 export const DEFAULT_PARAMS: SimulationParams = {
-  gridSize: GRID_SIZE,
-  epsilonSlab: 4.0,
+  gridNx: GRID_SIZE,
+  gridNy: GRID_SIZE,
+  coordinates: 'planar',
+  physics: 'electrostatic',
+  domainSize: 0.1, // 10 cm, so a world unit is 1 mm
+  lengthUnit: 'mm',
+  showRulers: true,
   epsilonBg: 1.0,
-  voltageTop: 100,
-  voltageBottom: -100,
+  sigmaBg: 1.0, // A weakly conducting medium, e.g. tap water is ~0.05 S/m and sea water ~5
   showVectors: true,
+  fieldStyle: 'arrows',
   vectorColor: '#000000',
   vectorOpacity: 0.8,
   vectorWidth: 1.0,
+  vectorStride: 5,
+  vectorColorMode: 'solid',
+  vectorScale: 'linear',
+  streamlineCount: 60,
+  showContours: false,
+  contourMode: 'spacing',
+  contourSpacing: 20,
+  contourCount: 10,
+  contourLabels: true,
+  contourColor: '#ffffff',
+  contourOpacity: 0.7,
+  contourWidth: 1.0,
   colorMap: 'turbo',
+  displayQuantity: 'potential',
+  rangeMode: 'auto',
+  rangeMin: -100,
+  rangeMax: 100,
+  logScale: false,
+  chargeUnit: 'normalized',
+  brushTarget: 'dielectric',
+  brushRadius: 3,
+  brushEpsilon: 4.0,
+  brushVoltage: 50,
+  solverType: 'sor',
+  sorOmega: 1.9,
+  autoOmega: true,
+  tolerance: 1e-4,
+  autoStop: true,
   boundaryTop: 'neumann',
   boundaryBottom: 'neumann',
   boundaryLeft: 'neumann',
   boundaryRight: 'neumann',
+  boundaryTopVoltage: 0,
+  boundaryTopVoltageEnd: 0,
+  boundaryBottomVoltage: 0,
+  boundaryBottomVoltageEnd: 0,
+  boundaryLeftVoltage: 0,
+  boundaryLeftVoltageEnd: 0,
+  boundaryRightVoltage: 0,
+  boundaryRightVoltageEnd: 0,
 };
 
-export const DEFAULT_SLAB: SlabState = {
-  x: 35,
-  y: 40,
-  width: 30,
-  height: 20,
+export const DEFAULT_DIELECTRICS: DielectricState[] = [
+  { id: 'slab', label: 'Slab', x: 35, y: 40, width: 30, height: 20, shape: 'rect', rotation: 0, epsilon: 4.0, anisotropic: false, epsilonY: 4.0, conductivity: 0 },
+];
+
+// Template for dielectrics added from the Controls panel
+export const NEW_DIELECTRIC: Omit<DielectricState, 'id' | 'label'> = {
+  x: 20, y: 30, width: 20, height: 20, shape: 'rect', rotation: 0, epsilon: 2.0, anisotropic: false, epsilonY: 2.0, conductivity: 0,
 };
 
 // Fixed Mode: Full width at edges (acting as standard capacitor plates)
 export const FIXED_PLATES: PlateState[] = [
-  { id: 'top', x: 0, y: 0, width: 100, height: 4, voltageParam: 'voltageTop' },
-  { id: 'bottom', x: 0, y: 96, width: 100, height: 4, voltageParam: 'voltageBottom' },
+  { id: 'top', label: 'Top', x: 0, y: 0, width: 100, height: 4, shape: 'rect', rotation: 0, voltage: 100, floating: false, charge: 0 },
+  { id: 'bottom', label: 'Bottom', x: 0, y: 96, width: 100, height: 4, shape: 'rect', rotation: 0, voltage: -100, floating: false, charge: 0 },
 ];
 
 // Free Mode: 40x3 draggable blocks
 export const FREE_PLATES: PlateState[] = [
-  { id: 'top', x: 30, y: 20, width: 40, height: 3, voltageParam: 'voltageTop' },
-  { id: 'bottom', x: 30, y: 75, width: 40, height: 3, voltageParam: 'voltageBottom' },
+  { id: 'top', label: 'Top', x: 30, y: 20, width: 40, height: 3, shape: 'rect', rotation: 0, voltage: 100, floating: false, charge: 0 },
+  { id: 'bottom', label: 'Bottom', x: 30, y: 75, width: 40, height: 3, shape: 'rect', rotation: 0, voltage: -100, floating: false, charge: 0 },
 ];
 
+// Template for conductors added from the Controls panel
+export const NEW_PLATE: Omit<PlateState, 'id' | 'label'> = {
+  x: 40, y: 48, width: 20, height: 4, shape: 'rect', rotation: 0, voltage: 0, floating: false, charge: 0,
+};
+
+export const DEFAULT_POLYGON_SIDES = 6; // Starting outline when a shape is switched to a polygon
+
+export const DEFAULT_CHARGES: ChargeState[] = [];
+
+// Templates for newly placed charges (value is λ/ε₀ in volts)
+export const NEW_POINT_CHARGE: Omit<ChargeState, 'id'> = {
+  kind: 'point', x: 49, y: 49, width: 2, height: 2, value: 200,
+};
+export const NEW_DISTRIBUTED_CHARGE: Omit<ChargeState, 'id'> = {
+  kind: 'distributed', x: 40, y: 45, width: 20, height: 10, value: 200,
+};
+
+// Starting point of the Record panel: the default slab swept across the gap
+export const DEFAULT_RECORDING: RecordingSettings = {
+  format: 'gif',
+  mode: 'iterations',
+  fps: 10,
+  duration: 5,
+  iterationStep: 50,
+  sweep: { kind: 'dielectric', targetId: 'slab', property: 'x', from: 5, to: 65 },
+};
+
 export const ITERATIONS_PER_FRAME = 40; // Speed of solver
+export const WORKER_BATCH_MS = 16; // Solver time between snapshots sent back by the worker
+export const STATS_INTERVAL_MS = 100; // How often solver stats are pushed to the UI
+export const MAX_HISTORY_POINTS = 400; // Residual samples kept for the convergence plot
+export const HISTORY_LIMIT = 100; // Undo steps kept
+export const HISTORY_MERGE_MS = 500; // Edits closer together than this undo as one step
+export const URL_UPDATE_DELAY_MS = 400; // Quiet time before the scene link in the address bar is rewritten
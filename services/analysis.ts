@@ -0,0 +1,267 @@
+import { SimulationParams, RasterizedPlate, FieldAnalysis, ConductorResult, SurfaceChargeSample, DielectricState, RegionPower } from '../types';
+import { getGridDims, getCellSize, getCellBounds, idx } from './solver';
+import { getColumnRadii, getRevolutionFactor, isAxisymmetric } from './coordinates';
+import { containsPoint, getShapeBounds } from './geometry';
+import { isCurrentMode } from './physics';
+
+/**
+ * Gauss's law around one conductor: sums the outward flux ε E·n over every
+ * face between the conductor and free space. Returns the enclosed charge
+ * (λ/ε₀, or Q/ε₀ in axisymmetric mode where each face is a ring) and the
+ * face-by-face surface charge ordered around the perimeter.
+ */
+const integrateConductor = (
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  maskGrid: Uint8Array,
+  conductor: RasterizedPlate,
+  params: SimulationParams
+): ConductorResult => {
+  const grid = getGridDims(params);
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const { plate, cells } = conductor;
+  const radii = getColumnRadii(params, grid);
+  const revolution = getRevolutionFactor(params);
+
+  const faces: { x: number; y: number; sigma: number }[] = [];
+  let charge = 0;
+  let voltage = 0;
+
+  // σ/ε₀ = ε ΔV / h on the face; the face carries σ times its length (times 2πr for a ring)
+  const addFace = (inner: number, outer: number, eps: Float32Array, h: number, length: number, fx: number, fy: number) => {
+    if (maskGrid[outer]) return;
+    const sigma = (eps[inner] + eps[outer]) * 0.5 * (potGrid[inner] - potGrid[outer]) / h;
+    charge += sigma * length * revolution;
+    faces.push({ x: fx, y: fy, sigma });
+  };
+
+  for (let k = 0; k < cells.length; k++) {
+    const i = cells[k];
+    const x = i % nx;
+    const y = (i - x) / nx;
+    const cx = (x + 0.5) * hx;
+    const cy = (y + 0.5) * hy;
+    voltage += potGrid[i];
+    if (y > 0) addFace(i, i - nx, epsYGrid, hy, hx * radii.centre[x], cx, y * hy);
+    if (y < ny - 1) addFace(i, i + nx, epsYGrid, hy, hx * radii.centre[x], cx, (y + 1) * hy);
+    if (x > 0) addFace(i, i - 1, epsXGrid, hx, hy * radii.left[x], x * hx, cy);
+    if (x < nx - 1) addFace(i, i + 1, epsXGrid, hx, hy * radii.right[x], (x + 1) * hx, cy);
+  }
+
+  // Walk the faces by angle around the centroid to get a perimeter coordinate
+  const centreX = faces.reduce((sum, f) => sum + f.x, 0) / (faces.length || 1);
+  const centreY = faces.reduce((sum, f) => sum + f.y, 0) / (faces.length || 1);
+  faces.sort((a, b) => Math.atan2(a.y - centreY, a.x - centreX) - Math.atan2(b.y - centreY, b.x - centreX));
+
+  const surfaceCharge: SurfaceChargeSample[] = [];
+  let s = 0;
+  for (let k = 0; k < faces.length; k++) {
+    if (k > 0) s += Math.hypot(faces[k].x - faces[k - 1].x, faces[k].y - faces[k - 1].y);
+    surfaceCharge.push({ s, sigma: faces[k].sigma });
+  }
+
+  return {
+    id: plate.id,
+    label: plate.label,
+    floating: plate.floating,
+    voltage: cells.length > 0 ? voltage / cells.length : plate.voltage,
+    charge,
+    surfaceCharge,
+  };
+};
+
+/**
+ * Total field energy per unit depth, W/ε₀ = ½ Σ ε (ΔV)² w over all cell
+ * faces, using the same face permittivities and weights as the solver. In
+ * axisymmetric mode it is the whole energy, each face weighted by 2πr.
+ */
+const computeEnergy = (
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  maskGrid: Uint8Array,
+  params: SimulationParams
+): number => {
+  const grid = getGridDims(params);
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const wx = hy / hx;
+  const wy = hx / hy;
+  const radii = getColumnRadii(params, grid);
+  let energy = 0;
+
+  for (let y = 0; y < ny; y++) {
+    for (let x = 0; x < nx; x++) {
+      const i = y * nx + x;
+      if (x < nx - 1 && !(maskGrid[i] && maskGrid[i + 1])) {
+        const dv = potGrid[i + 1] - potGrid[i];
+        energy += (epsXGrid[i] + epsXGrid[i + 1]) * 0.5 * wx * radii.right[x] * dv * dv;
+      }
+      if (y < ny - 1 && !(maskGrid[i] && maskGrid[i + nx])) {
+        const dv = potGrid[i + nx] - potGrid[i];
+        energy += (epsYGrid[i] + epsYGrid[i + nx]) * 0.5 * wy * radii.centre[x] * dv * dv;
+      }
+    }
+  }
+  return energy * 0.5 * getRevolutionFactor(params);
+};
+
+/**
+ * Joule heating P = Σ σ (ΔV)² w over all cell faces (twice the energy sum,
+ * with σ in place of ε), split between the material regions. The face σ is
+ * the mean of the two cells beside it, as if each half conducted in
+ * parallel, so each free cell takes a share in proportion to its own σ; the
+ * whole face goes to one cell when the other is a conductor or an edge cell
+ * (faces along the edge rows carry no current of their own). A cell belongs
+ * to the topmost region covering its centre. The background is listed first.
+ */
+const computeRegionPower = (
+  potGrid: Float64Array,
+  sigmaGrid: Float32Array,
+  maskGrid: Uint8Array,
+  dielectrics: DielectricState[],
+  params: SimulationParams
+): RegionPower[] => {
+  const grid = getGridDims(params);
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const wx = hy / hx;
+  const wy = hx / hy;
+  const radii = getColumnRadii(params, grid);
+  const firstX = isAxisymmetric(params) ? 0 : 1;
+
+  // Region of each cell: 0 for the background, k + 1 for the k-th dielectric
+  const owner = new Int32Array(nx * ny);
+  dielectrics.forEach((dielectric, k) => {
+    const { startX, endX, startY, endY } = getCellBounds(getShapeBounds(dielectric), grid);
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        if (containsPoint(dielectric, (x + 0.5) * hx, (y + 0.5) * hy)) owner[idx(x, y, nx)] = k + 1;
+      }
+    }
+  });
+
+  const power = new Float64Array(dielectrics.length + 1);
+  // Cells the solver relaxes
+  const free = new Uint8Array(nx * ny);
+  for (let y = 1; y < ny - 1; y++) {
+    for (let x = firstX; x < nx - 1; x++) free[idx(x, y, nx)] = maskGrid[idx(x, y, nx)] ? 0 : 1;
+  }
+
+  const addFace = (i: number, j: number, weight: number) => {
+    if (!free[i] && !free[j]) return;
+    const dv = potGrid[j] - potGrid[i];
+    const p = (sigmaGrid[i] + sigmaGrid[j]) * 0.5 * weight * dv * dv;
+    if (!free[i]) power[owner[j]] += p;
+    else if (!free[j]) power[owner[i]] += p;
+    else {
+      const share = sigmaGrid[i] / (sigmaGrid[i] + sigmaGrid[j]);
+      power[owner[i]] += p * share;
+      power[owner[j]] += p * (1 - share);
+    }
+  };
+
+  for (let y = 0; y < ny; y++) {
+    for (let x = 0; x < nx; x++) {
+      const i = idx(x, y, nx);
+      if (x < nx - 1) addFace(i, i + 1, wx * radii.right[x]);
+      if (y < ny - 1) addFace(i, i + nx, wy * radii.centre[x]);
+    }
+  }
+
+  const revolution = getRevolutionFactor(params);
+  return [
+    { id: '', label: 'Background', power: power[0] * revolution },
+    ...dielectrics.map((d, k) => ({ id: d.id, label: d.label, power: power[k + 1] * revolution })),
+  ];
+};
+
+/**
+ * Textbook εA/d for two axis-aligned rectangular plates facing each other
+ * vertically. Each column of the overlap is treated as a stack of dielectric
+ * layers in series, and the columns add in parallel, so layered dielectrics
+ * are handled exactly and only fringing is neglected. In axisymmetric mode
+ * the columns are annuli and the plates disks or rings.
+ */
+const idealParallelPlate = (
+  epsYGrid: Float32Array,
+  fixed: RasterizedPlate[],
+  params: SimulationParams
+): number | null => {
+  if (fixed.length !== 2) return null;
+  const [a, b] = fixed.map(c => c.plate);
+  if ([a, b].some(p => p.shape !== 'rect' || p.rotation % 360 !== 0)) return null;
+
+  const [upper, lower] = a.y <= b.y ? [a, b] : [b, a];
+  const left = Math.max(upper.x, lower.x);
+  const right = Math.min(upper.x + upper.width, lower.x + lower.width);
+  const top = upper.y + upper.height;
+  const bottom = lower.y;
+  if (right <= left || bottom <= top) return null;
+
+  const grid = getGridDims(params);
+  const { hx, hy } = getCellSize(grid);
+  const radii = getColumnRadii(params, grid);
+  const startX = Math.round(left / hx);
+  const endX = Math.round(right / hx);
+  const startY = Math.round(top / hy);
+  const endY = Math.round(bottom / hy);
+  if (endX <= startX || endY <= startY) return null;
+
+  let capacitance = 0;
+  for (let x = startX; x < endX; x++) {
+    let resistance = 0;
+    for (let y = startY; y < endY; y++) resistance += hy / epsYGrid[y * grid.nx + x];
+    capacitance += (hx * radii.centre[x]) / resistance;
+  }
+  return capacitance * getRevolutionFactor(params);
+};
+
+/**
+ * Derived quantities of the current solution: field energy, the charge on
+ * every conductor and, when at least two conductors are held at different
+ * voltages, the capacitance between the highest and the lowest of them.
+ * Charges are λ/ε₀ (V), energy W/ε₀ (V²) and capacitance C/ε₀ (dimensionless);
+ * in axisymmetric mode they are totals, each carrying one more world unit of length.
+ *
+ * In current mode the grids passed in hold σ instead of ε, so the same sums
+ * give each electrode's current (A/m), the conductance (S/m) and its σA/d
+ * estimate, and the Joule power is reported per region instead of the energy.
+ */
+export const analyzeField = (
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  maskGrid: Uint8Array,
+  conductors: RasterizedPlate[],
+  params: SimulationParams,
+  dielectrics: DielectricState[] = []
+): FieldAnalysis => {
+  const results = conductors.map(c => integrateConductor(potGrid, epsXGrid, epsYGrid, maskGrid, c, params));
+
+  const fixed = results.filter(r => !r.floating);
+  let capacitance: FieldAnalysis['capacitance'] = null;
+  if (fixed.length >= 2) {
+    const high = fixed.reduce((best, r) => (r.voltage > best.voltage ? r : best));
+    const low = fixed.reduce((best, r) => (r.voltage < best.voltage ? r : best));
+    const dv = high.voltage - low.voltage;
+    if (dv > 0) {
+      // Average the two plate charges so stray flux to other boundaries cancels out
+      capacitance = { high: high.label, low: low.label, value: (high.charge - low.charge) / 2 / dv };
+    }
+  }
+
+  const current = isCurrentMode(params);
+  const regionPower = current ? computeRegionPower(potGrid, epsXGrid, maskGrid, dielectrics, params) : [];
+
+  return {
+    energy: current ? 0 : computeEnergy(potGrid, epsXGrid, epsYGrid, maskGrid, params),
+    conductors: results,
+    capacitance,
+    idealCapacitance: idealParallelPlate(epsYGrid, conductors.filter(c => !c.plate.floating), params),
+    power: current ? regionPower.reduce((sum, r) => sum + r.power, 0) : null,
+    regionPower,
+  };
+};
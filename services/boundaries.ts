@@ -0,0 +1,148 @@
+import { BoundaryEdge, BoundaryType, GridDims, SimulationParams } from '../types';
+import { WORLD_SIZE } from '../constants';
+import { isAxisymmetric } from './coordinates';
+
+export const BOUNDARY_EDGES: BoundaryEdge[] = ['Top', 'Bottom', 'Left', 'Right'];
+
+export const BOUNDARY_TYPES: Record<BoundaryType, { label: string; description: string }> = {
+  dirichlet: { label: 'Fixed V', description: 'Held at a set voltage (0 V is grounded)' },
+  ramp: { label: 'Ramp', description: 'Voltage varies linearly along the edge' },
+  neumann: { label: 'Insulated', description: 'No field crosses the edge' },
+  periodic: { label: 'Periodic', description: 'Wraps round to the opposite edge' },
+  open: { label: 'Open', description: 'Approximates empty space extending to infinity' },
+};
+
+// Edge paired with each one under periodic conditions
+export const OPPOSITE_EDGE: Record<BoundaryEdge, BoundaryEdge> = {
+  Top: 'Bottom', Bottom: 'Top', Left: 'Right', Right: 'Left',
+};
+
+export const getBoundary = (params: SimulationParams, edge: BoundaryEdge) => ({
+  type: params[`boundary${edge}`],
+  voltage: params[`boundary${edge}Voltage`],
+  voltageEnd: params[`boundary${edge}VoltageEnd`],
+});
+
+/**
+ * Edges that carry a boundary condition. In axisymmetric mode the left edge
+ * is the symmetry axis, which needs none: its faces have zero area.
+ */
+export const getOuterEdges = (params: SimulationParams): BoundaryEdge[] =>
+  isAxisymmetric(params) ? BOUNDARY_EDGES.filter(edge => edge !== 'Left') : BOUNDARY_EDGES;
+
+/**
+ * Either edge of a pair being periodic wraps both, so a half-set pair still
+ * gives a consistent problem. The radial edges of an axisymmetric domain
+ * cannot wrap.
+ */
+export const isPeriodicEdge = (params: SimulationParams, edge: BoundaryEdge) => {
+  if (isAxisymmetric(params) && (edge === 'Left' || edge === 'Right')) return false;
+  return params[`boundary${edge}`] === 'periodic' || params[`boundary${OPPOSITE_EDGE[edge]}`] === 'periodic';
+};
+
+/**
+ * The k-th cell along an edge: the edge cell itself (a ghost row or column
+ * the solver never relaxes), its inner neighbour, and the inner cell at the
+ * far side of the domain that periodic edges copy.
+ */
+const getEdgeCells = (edge: BoundaryEdge, k: number, { nx, ny }: GridDims) => {
+  switch (edge) {
+    case 'Top': return { ghost: k, inner: nx + k, wrap: (ny - 2) * nx + k };
+    case 'Bottom': return { ghost: (ny - 1) * nx + k, inner: (ny - 2) * nx + k, wrap: nx + k };
+    case 'Left': return { ghost: k * nx, inner: k * nx + 1, wrap: k * nx + nx - 2 };
+    case 'Right': return { ghost: k * nx + nx - 1, inner: k * nx + nx - 2, wrap: k * nx + 1 };
+  }
+};
+
+/**
+ * Ratio V_edge / V_inner for an open edge. Far from the sources a 2D field
+ * with no net charge falls off as 1/r, so ∂V/∂n = -(n·r̂) V / r, taken about
+ * the centre of the domain. Discretized across the face between the two
+ * cells, with V on the face as their mean, this gives
+ * V_edge = V_inner (1 - c h/2) / (1 + c h/2) where c = n·r / r². An
+ * axisymmetric field falls off as the 3D 1/r about a point on the axis,
+ * which gives the same c with r measured from there.
+ */
+export const getOpenEdgeFactor = (params: SimulationParams, edge: BoundaryEdge, k: number, grid: GridDims) => {
+  const hx = WORLD_SIZE / grid.nx;
+  const hy = WORLD_SIZE / grid.ny;
+  const centre = WORLD_SIZE / 2;
+  const centreX = isAxisymmetric(params) ? 0 : centre;
+  const horizontal = edge === 'Top' || edge === 'Bottom';
+  // Midpoint of the face between the edge cell and its inner neighbour
+  const fx = horizontal ? (k + 0.5) * hx : edge === 'Left' ? hx : WORLD_SIZE - hx;
+  const fy = horizontal ? (edge === 'Top' ? hy : WORLD_SIZE - hy) : (k + 0.5) * hy;
+  const rx = fx - centreX;
+  const ry = fy - centre;
+  const normalDistance = edge === 'Top' ? -ry : edge === 'Bottom' ? ry : edge === 'Left' ? -rx : rx;
+  const ch = (normalDistance / (rx * rx + ry * ry)) * (horizontal ? hy : hx) * 0.5;
+  return (1 - ch) / (1 + ch);
+};
+
+/**
+ * Potential an edge cell is held at when the edge is fixed or a ramp. Ramps
+ * run left to right along horizontal edges and top to bottom along vertical ones.
+ */
+const getEdgeVoltage = (params: SimulationParams, edge: BoundaryEdge, k: number, count: number) => {
+  const { type, voltage, voltageEnd } = getBoundary(params, edge);
+  if (type !== 'ramp') return voltage;
+  return voltage + (voltageEnd - voltage) * (k / Math.max(1, count - 1));
+};
+
+/**
+ * Enforces the outer box conditions on the edge rows and columns: fixed and
+ * ramped edges are set outright, insulated ones copy their inner neighbour,
+ * periodic ones copy the inner cell on the opposite side and open ones a
+ * damped copy of it. A periodic edge that cannot wrap is left insulated.
+ * Vertical edges are applied last, so they own the corners.
+ */
+export const applyEdgeBoundaries = (potGrid: Float64Array, params: SimulationParams) => {
+  const grid: GridDims = { nx: params.gridNx, ny: params.gridNy };
+
+  for (const edge of getOuterEdges(params)) {
+    const count = edge === 'Top' || edge === 'Bottom' ? grid.nx : grid.ny;
+    const periodic = isPeriodicEdge(params, edge);
+    const { type } = getBoundary(params, edge);
+
+    for (let k = 0; k < count; k++) {
+      const { ghost, inner, wrap } = getEdgeCells(edge, k, grid);
+      if (periodic) potGrid[ghost] = potGrid[wrap];
+      else if (type === 'neumann' || type === 'periodic') potGrid[ghost] = potGrid[inner];
+      else if (type === 'open') potGrid[ghost] = potGrid[inner] * getOpenEdgeFactor(params, edge, k, grid);
+      else potGrid[ghost] = getEdgeVoltage(params, edge, k, count);
+    }
+  }
+};
+
+/**
+ * How much of the face flux towards edge cell (x, y) the multigrid operator
+ * keeps: all of it for fixed edges (zero error there), none for insulated
+ * ones and 1 - V_edge/V_inner for open ones. The coarse grids have no
+ * wrap-around couplings, so periodic faces are treated as fixed: that only
+ * damps the coarse correction, whereas dropping them (as if insulated)
+ * overshoots it and diverges. The fine-grid smoother carries the periodicity.
+ */
+export const getEdgeFluxWeight = (params: SimulationParams, grid: GridDims, x: number, y: number) => {
+  const edge: BoundaryEdge = y === 0 ? 'Top' : y === grid.ny - 1 ? 'Bottom' : x === 0 ? 'Left' : 'Right';
+  if (isPeriodicEdge(params, edge)) return 1;
+  const { type } = getBoundary(params, edge);
+  if (type === 'neumann' || type === 'periodic') return 0;
+  if (type === 'open') return 1 - getOpenEdgeFactor(params, edge, edge === 'Top' || edge === 'Bottom' ? x : y, grid);
+  return 1;
+};
+
+/**
+ * Voltages the edges hold the solution at, for the colour range. Open edges
+ * count as 0 V, the potential at infinity.
+ */
+export const getEdgeVoltages = (params: SimulationParams): number[] => {
+  const voltages: number[] = [];
+  for (const edge of getOuterEdges(params)) {
+    if (isPeriodicEdge(params, edge)) continue;
+    const { type, voltage, voltageEnd } = getBoundary(params, edge);
+    if (type === 'dirichlet') voltages.push(voltage);
+    else if (type === 'ramp') voltages.push(voltage, voltageEnd);
+    else if (type === 'open') voltages.push(0);
+  }
+  return voltages;
+};
@@ -0,0 +1,170 @@
+import { GridDims, SimulationParams } from '../types';
+import { WORLD_SIZE } from '../constants';
+import { getCellSize } from './solver';
+
+// Guards against a tiny spacing turning into thousands of contour levels
+const MAX_CONTOUR_LEVELS = 200;
+// Minimum distance (world units) between two labels on the same level
+const LABEL_SPACING = 25;
+
+type Segment = [number, number, number, number]; // x1, y1, x2, y2 in world units
+
+/**
+ * Voltages to draw: multiples of the spacing that fall inside the solution,
+ * or a fixed number of levels spread evenly across it.
+ */
+export const getContourLevels = (potGrid: Float64Array, params: SimulationParams): number[] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < potGrid.length; i++) {
+    if (potGrid[i] < min) min = potGrid[i];
+    if (potGrid[i] > max) max = potGrid[i];
+  }
+  if (!(max > min)) return [];
+
+  if (params.contourMode === 'count') {
+    const count = Math.max(1, Math.min(MAX_CONTOUR_LEVELS, Math.round(params.contourCount)));
+    return Array.from({ length: count }, (_, k) => min + ((k + 1) / (count + 1)) * (max - min));
+  }
+
+  const spacing = params.contourSpacing;
+  if (!(spacing > 0)) return [];
+  const first = Math.ceil(min / spacing);
+  const last = Math.floor(max / spacing);
+  if (last - first + 1 > MAX_CONTOUR_LEVELS) return [];
+  const levels: number[] = [];
+  for (let k = first; k <= last; k++) levels.push(k * spacing);
+  return levels;
+};
+
+/**
+ * Marching squares over the cell centres. Returns the isoline of one level as
+ * unordered segments; saddle cells are resolved with the average of the four
+ * corners so neighbouring squares always join up.
+ */
+export const traceContour = (potGrid: Float64Array, grid: GridDims, level: number): Segment[] => {
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const segments: Segment[] = [];
+
+  // Crossing point on the edge between two corners, in world units
+  const lerp = (x0: number, y0: number, v0: number, x1: number, y1: number, v1: number) => {
+    const t = (level - v0) / (v1 - v0);
+    return [(x0 + (x1 - x0) * t + 0.5) * hx, (y0 + (y1 - y0) * t + 0.5) * hy];
+  };
+
+  for (let y = 0; y < ny - 1; y++) {
+    for (let x = 0; x < nx - 1; x++) {
+      const i = y * nx + x;
+      const tl = potGrid[i];
+      const tr = potGrid[i + 1];
+      const br = potGrid[i + nx + 1];
+      const bl = potGrid[i + nx];
+      const code = (tl >= level ? 8 : 0) | (tr >= level ? 4 : 0) | (br >= level ? 2 : 0) | (bl >= level ? 1 : 0);
+      if (code === 0 || code === 15) continue;
+
+      const top = () => lerp(x, y, tl, x + 1, y, tr);
+      const right = () => lerp(x + 1, y, tr, x + 1, y + 1, br);
+      const bottom = () => lerp(x, y + 1, bl, x + 1, y + 1, br);
+      const left = () => lerp(x, y, tl, x, y + 1, bl);
+      const add = (a: number[], b: number[]) => segments.push([a[0], a[1], b[0], b[1]]);
+
+      switch (code) {
+        case 1: case 14: add(left(), bottom()); break;
+        case 2: case 13: add(bottom(), right()); break;
+        case 3: case 12: add(left(), right()); break;
+        case 4: case 11: add(top(), right()); break;
+        case 6: case 9: add(top(), bottom()); break;
+        case 7: case 8: add(left(), top()); break;
+        case 5: case 10: {
+          // Saddle: the centre decides which diagonal pair is connected
+          const centreHigh = (tl + tr + br + bl) / 4 >= level;
+          if ((code === 5) === centreHigh) {
+            add(left(), top());
+            add(bottom(), right());
+          } else {
+            add(left(), bottom());
+            add(top(), right());
+          }
+          break;
+        }
+      }
+    }
+  }
+  return segments;
+};
+
+const formatLevel = (v: number) => {
+  const rounded = Number(v.toPrecision(3));
+  return `${rounded} V`;
+};
+
+/**
+ * Draws the equipotential lines over the heatmap, optionally labelled with
+ * their voltage at a few well-separated points along each line.
+ */
+export const renderContours = (
+  ctx: CanvasRenderingContext2D,
+  potGrid: Float64Array,
+  grid: GridDims,
+  canvasWidth: number,
+  canvasHeight: number,
+  params: SimulationParams
+) => {
+  const scaleX = canvasWidth / WORLD_SIZE;
+  const scaleY = canvasHeight / WORLD_SIZE;
+  const levels = getContourLevels(potGrid, params);
+  const labels: { x: number; y: number; angle: number; text: string }[] = [];
+
+  ctx.save();
+  ctx.strokeStyle = params.contourColor;
+  ctx.lineWidth = params.contourWidth;
+  ctx.globalAlpha = params.contourOpacity;
+  ctx.lineCap = 'round';
+
+  for (const level of levels) {
+    const segments = traceContour(potGrid, grid, level);
+    if (segments.length === 0) continue;
+
+    ctx.beginPath();
+    for (const [x1, y1, x2, y2] of segments) {
+      ctx.moveTo(x1 * scaleX, y1 * scaleY);
+      ctx.lineTo(x2 * scaleX, y2 * scaleY);
+    }
+    ctx.stroke();
+
+    if (!params.contourLabels) continue;
+    const placed: { x: number; y: number }[] = [];
+    for (const [x1, y1, x2, y2] of segments) {
+      const mx = (x1 + x2) / 2;
+      const my = (y1 + y2) / 2;
+      if (mx < 4 || mx > WORLD_SIZE - 4 || my < 4 || my > WORLD_SIZE - 4) continue;
+      if (placed.some(p => Math.hypot(p.x - mx, p.y - my) < LABEL_SPACING)) continue;
+      placed.push({ x: mx, y: my });
+
+      // Keep the text upright whichever way the segment runs
+      let angle = Math.atan2((y2 - y1) * scaleY, (x2 - x1) * scaleX);
+      if (angle > Math.PI / 2) angle -= Math.PI;
+      if (angle < -Math.PI / 2) angle += Math.PI;
+      labels.push({ x: mx * scaleX, y: my * scaleY, angle, text: formatLevel(level) });
+    }
+  }
+
+  // Labels go on top of every line, with a dark halo for contrast
+  ctx.globalAlpha = 1;
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillStyle = '#ffffff';
+  for (const label of labels) {
+    ctx.save();
+    ctx.translate(label.x, label.y);
+    ctx.rotate(label.angle);
+    ctx.strokeText(label.text, 0, 0);
+    ctx.fillText(label.text, 0, 0);
+    ctx.restore();
+  }
+  ctx.restore();
+};
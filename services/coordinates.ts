@@ -0,0 +1,47 @@
+import { CoordinateSystem, GridDims, SimulationParams } from '../types';
+import { WORLD_SIZE } from '../constants';
+
+export const COORDINATE_SYSTEMS: Record<CoordinateSystem, { label: string; description: string; axes: [string, string] }> = {
+  planar: { label: 'Planar', description: 'Cross-section of shapes extending infinitely into the screen', axes: ['x', 'y'] },
+  axisymmetric: { label: 'Axisymmetric', description: 'Shapes revolved about the left edge, which is the symmetry axis', axes: ['r', 'z'] },
+};
+
+export const isAxisymmetric = (params: SimulationParams) => params.coordinates === 'axisymmetric';
+
+// Names of the horizontal and vertical axes, e.g. ['r', 'z']
+export const getAxisNames = (params: SimulationParams) => COORDINATE_SYSTEMS[params.coordinates].axes;
+
+/**
+ * Factor between the flux through the grid faces and the real flux: 1 per
+ * unit depth in planar mode and 2π in axisymmetric mode, where every face is
+ * a ring and the solver works with fluxes per radian.
+ */
+export const getRevolutionFactor = (params: SimulationParams) => (isAxisymmetric(params) ? 2 * Math.PI : 1);
+
+export interface ColumnRadii {
+  centre: Float64Array; // Radius of each column's cell centres
+  left: Float64Array; // Radius of its left and right faces
+  right: Float64Array;
+}
+
+/**
+ * Radii of each grid column in world units, which scale the face lengths in
+ * the axisymmetric finite-volume form: faces between columns are rings of
+ * radius r at the face, faces between rows annuli of mean radius r at the
+ * centre. The axis is the left edge of column 0, so its left face has no
+ * area. Planar geometry has every radius 1 so the same formulas apply.
+ */
+export const getColumnRadii = (params: SimulationParams, grid: GridDims): ColumnRadii => {
+  const centre = new Float64Array(grid.nx).fill(1);
+  const left = new Float64Array(grid.nx).fill(1);
+  const right = new Float64Array(grid.nx).fill(1);
+  if (isAxisymmetric(params)) {
+    const hx = WORLD_SIZE / grid.nx;
+    for (let x = 0; x < grid.nx; x++) {
+      centre[x] = (x + 0.5) * hx;
+      left[x] = x * hx;
+      right[x] = (x + 1) * hx;
+    }
+  }
+  return { centre, left, right };
+};
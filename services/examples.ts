@@ -0,0 +1,264 @@
+import { PlateState, Scene, SimulationParams } from '../types';
+import { SCENE_FORMAT, SCENE_VERSION, SceneFile, parseScene } from './scene';
+
+export interface ExampleScene {
+  id: string;
+  name: string;
+  description: string;
+  // Written exactly like a saved scene file; params list only what differs from the defaults
+  file: Omit<SceneFile, 'params'> & { params: Partial<SimulationParams> };
+}
+
+const GROUNDED_BOX: Partial<SimulationParams> = {
+  boundaryTop: 'dirichlet',
+  boundaryBottom: 'dirichlet',
+  boundaryLeft: 'dirichlet',
+  boundaryRight: 'dirichlet',
+};
+
+const OPEN_SPACE: Partial<SimulationParams> = {
+  boundaryTop: 'open',
+  boundaryBottom: 'open',
+  boundaryLeft: 'open',
+  boundaryRight: 'open',
+};
+
+const rectPlate = (id: string, label: string, x: number, y: number, width: number, height: number, voltage: number): PlateState => ({
+  id, label, x, y, width, height, shape: 'rect', rotation: 0, voltage, floating: false, charge: 0,
+});
+
+// Grounded wires on a circle around the centre of the domain
+const cageWires = (count: number, radius: number, diameter: number): PlateState[] =>
+  Array.from({ length: count }, (_, i) => {
+    const angle = (2 * Math.PI * i) / count;
+    return {
+      id: `wire-${i + 1}`,
+      label: `W${i + 1}`,
+      x: 50 + radius * Math.cos(angle) - diameter / 2,
+      y: 50 + radius * Math.sin(angle) - diameter / 2,
+      width: diameter,
+      height: diameter,
+      shape: 'ellipse',
+      rotation: 0,
+      voltage: 0,
+      floating: false,
+      charge: 0,
+    };
+  });
+
+const header = { format: SCENE_FORMAT, version: SCENE_VERSION } as const;
+
+export const EXAMPLES: ExampleScene[] = [
+  {
+    id: 'parallel-plate',
+    name: 'Parallel plate with fringing',
+    description: 'Two finite plates in a grounded box. The field is uniform between them and bulges outward at the edges; compare the computed capacitance with the ideal εA/d.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { ...GROUNDED_BOX, showContours: true, contourSpacing: 20 },
+      dielectrics: [],
+      plates: [
+        rectPlate('top', 'Top', 30, 40, 40, 2, 100),
+        rectPlate('bottom', 'Bottom', 30, 58, 40, 2, -100),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'isolated-capacitor',
+    name: 'Isolated capacitor',
+    description: 'The same plates with open edges, as if nothing surrounded them. The fringing field spreads out freely instead of ending on the walls, and the capacitance is that of the plates alone.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { ...OPEN_SPACE, showContours: true, contourSpacing: 10, fieldStyle: 'streamlines' },
+      dielectrics: [],
+      plates: [
+        rectPlate('top', 'Top', 30, 40, 40, 2, 100),
+        rectPlate('bottom', 'Bottom', 30, 58, 40, 2, -100),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'coax',
+    name: 'Coaxial line',
+    description: 'An inner conductor at 100 V inside a grounded ring, filled with PTFE (ε = 2.1). The potential falls off logarithmically with radius and the field is purely radial.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { gridNx: 150, gridNy: 150, showContours: true, contourSpacing: 10, fieldStyle: 'streamlines' },
+      dielectrics: [
+        { id: 'ptfe', label: 'PTFE', x: 16, y: 16, width: 68, height: 68, shape: 'ellipse', rotation: 0, epsilon: 2.1, anisotropic: false, epsilonY: 2.1, conductivity: 0 },
+      ],
+      plates: [
+        { id: 'shield', label: 'Shield', x: 10, y: 10, width: 80, height: 80, shape: 'ellipse', rotation: 0, holeRatio: 0.85, voltage: 0, floating: false, charge: 0 },
+        { id: 'core', label: 'Core', x: 40, y: 40, width: 20, height: 20, shape: 'ellipse', rotation: 0, voltage: 100, floating: false, charge: 0 },
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'microstrip',
+    name: 'Microstrip over ground plane',
+    description: 'A narrow trace on an FR-4 substrate (ε = 4.4) above a ground plane. Most of the field is concentrated in the substrate under the trace, with fringing into the air above.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { gridNx: 200, gridNy: 200, boundaryTop: 'dirichlet', boundaryLeft: 'dirichlet', boundaryRight: 'dirichlet', showContours: true, contourSpacing: 10 },
+      dielectrics: [
+        { id: 'substrate', label: 'FR-4', x: 0, y: 80, width: 100, height: 10, shape: 'rect', rotation: 0, epsilon: 4.4, anisotropic: false, epsilonY: 4.4, conductivity: 0 },
+      ],
+      plates: [
+        rectPlate('ground', 'Ground', 0, 90, 100, 4, 0),
+        rectPlate('trace', 'Trace', 44, 78, 12, 2, 100),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'faraday-cage',
+    name: 'Faraday cage',
+    description: 'A ring of grounded wires between two charged plates. Even with gaps between the wires, the field inside the cage is almost completely screened.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { gridNx: 200, gridNy: 200, showContours: true, contourSpacing: 10, fieldStyle: 'streamlines', streamlineCount: 80 },
+      dielectrics: [],
+      plates: [
+        rectPlate('top', 'Top', 0, 0, 100, 4, 100),
+        rectPlate('bottom', 'Bottom', 0, 96, 100, 4, -100),
+        ...cageWires(16, 25, 3),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'dielectric-cylinder',
+    name: 'Dielectric sphere in a uniform field',
+    description: 'A round dielectric (ε = 5) between parallel plates; in 2D it is the cross-section of a long cylinder. The field inside is uniform and weaker than outside, and bound charge collects on the surface.',
+    file: {
+      ...header,
+      appMode: 'fixed',
+      params: { showContours: true, contourSpacing: 10, displayQuantity: 'potential' },
+      dielectrics: [
+        { id: 'cylinder', label: 'Cylinder', x: 35, y: 35, width: 30, height: 30, shape: 'ellipse', rotation: 0, epsilon: 5, anisotropic: false, epsilonY: 5, conductivity: 0 },
+      ],
+      plates: [
+        rectPlate('top', 'Top', 0, 0, 100, 4, 100),
+        rectPlate('bottom', 'Bottom', 0, 96, 100, 4, -100),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'image-charge',
+    name: 'Point charge near a grounded plane',
+    description: 'A line charge above a grounded conductor. The field lines meet the plane at right angles, exactly as if an opposite image charge sat mirrored below it.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { ...GROUNDED_BOX, gridNx: 150, gridNy: 150, showContours: true, contourSpacing: 5, fieldStyle: 'streamlines' },
+      dielectrics: [],
+      plates: [rectPlate('ground', 'Ground', 0, 80, 100, 4, 0)],
+      charges: [
+        { id: 'charge', kind: 'point', x: 49, y: 59, width: 2, height: 2, value: 200 },
+      ],
+    },
+  },
+  {
+    id: 'disk-capacitor',
+    name: 'Circular disk capacitor',
+    description: 'Two round disks, solved in axisymmetric mode about the left edge. Unlike the planar plates the fringing field wraps all round the rim, so the capacitance exceeds the ideal ε₀πR²/d by more than in 2D.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { ...OPEN_SPACE, coordinates: 'axisymmetric', gridNx: 150, gridNy: 150, showContours: true, contourSpacing: 10, fieldStyle: 'streamlines' },
+      dielectrics: [],
+      plates: [
+        rectPlate('top', 'Top', 0, 44, 30, 2, 100),
+        rectPlate('bottom', 'Bottom', 0, 54, 30, 2, -100),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'einzel-lens',
+    name: 'Einzel lens',
+    description: 'Three coaxial ring electrodes inside a grounded tube, the middle one at 100 V. The bulging equipotentials between the rings focus a charged-particle beam travelling along the axis.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { ...GROUNDED_BOX, coordinates: 'axisymmetric', gridNx: 150, gridNy: 150, showContours: true, contourSpacing: 5 },
+      dielectrics: [],
+      plates: [
+        rectPlate('entry', 'Entry', 12, 30, 20, 4, 0),
+        rectPlate('centre', 'Centre', 12, 48, 20, 4, 100),
+        rectPlate('exit', 'Exit', 12, 66, 20, 4, 0),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'needle',
+    name: 'Needle above a plane',
+    description: 'A thin needle on the axis held at 100 V above a grounded plane. The field concentrates strongly at the tip, far more than at the edge of a planar blade, which is why sharp points start corona discharge.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { ...OPEN_SPACE, coordinates: 'axisymmetric', gridNx: 200, gridNy: 200, displayQuantity: 'fieldMagnitude', logScale: true, showContours: true, contourSpacing: 10 },
+      dielectrics: [],
+      plates: [
+        rectPlate('needle', 'Needle', 0, 0, 1, 60, 100),
+        rectPlate('plane', 'Plane', 0, 80, 100, 4, 0),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'electrolytic-tank',
+    name: 'Electrolytic tank',
+    description: 'Current flowing through salt water (5 S/m) between two bar electrodes, solved in DC current mode. Current swerves round the insulating stone and crowds into the graphite rod, which carries a large share of it while dissipating little power.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { physics: 'current', sigmaBg: 5, gridNx: 150, gridNy: 150, displayQuantity: 'currentDensity', showContours: true, contourMode: 'count', contourCount: 12, fieldStyle: 'streamlines' },
+      dielectrics: [
+        { id: 'stone', label: 'Stone', x: 30, y: 25, width: 20, height: 20, shape: 'ellipse', rotation: 0, epsilon: 6, anisotropic: false, epsilonY: 6, conductivity: 0 },
+        { id: 'rod', label: 'Graphite', x: 50, y: 62, width: 30, height: 6, shape: 'rect', rotation: 0, epsilon: 1, anisotropic: false, epsilonY: 1, conductivity: 500 },
+      ],
+      plates: [
+        rectPlate('anode', 'Anode', 6, 10, 4, 80, 12),
+        rectPlate('cathode', 'Cathode', 90, 10, 4, 80, 0),
+      ],
+      charges: [],
+    },
+  },
+  {
+    id: 'constriction',
+    name: 'Constricted trace',
+    description: 'A copper trace on an insulating board, pinched to a narrow neck by two notches. Current crowds through the neck, so almost all of the Joule heating and much of the resistance is concentrated there.',
+    file: {
+      ...header,
+      appMode: 'free',
+      params: { physics: 'current', sigmaBg: 0, gridNx: 200, gridNy: 200, displayQuantity: 'powerDensity', logScale: true, showContours: true, contourMode: 'count', contourCount: 20 },
+      dielectrics: [
+        { id: 'trace', label: 'Copper', x: 5, y: 40, width: 90, height: 20, shape: 'rect', rotation: 0, epsilon: 1, anisotropic: false, epsilonY: 1, conductivity: 5.8e7 },
+        { id: 'notch-top', label: 'Notch', x: 47, y: 40, width: 6, height: 8, shape: 'rect', rotation: 0, epsilon: 1, anisotropic: false, epsilonY: 1, conductivity: 0 },
+        { id: 'notch-bottom', label: 'Notch', x: 47, y: 52, width: 6, height: 8, shape: 'rect', rotation: 0, epsilon: 1, anisotropic: false, epsilonY: 1, conductivity: 0 },
+      ],
+      plates: [
+        rectPlate('source', 'Source', 5, 40, 4, 20, 1),
+        rectPlate('sink', 'Sink', 91, 40, 4, 20, 0),
+      ],
+      charges: [],
+    },
+  },
+];
+
+/**
+ * Examples load through the same parser as user files, so they are validated
+ * and filled in with defaults in exactly the same way.
+ */
+export const loadExample = (example: ExampleScene): Scene => parseScene(example.file);
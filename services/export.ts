@@ -0,0 +1,266 @@
+import { DataExportFormat, GridDims, SimulationParams } from '../types';
+import { EPSILON_0 } from '../constants';
+import { getCellSize } from './solver';
+import { computeFieldGrids } from './fields';
+import { getMetresPerUnit } from './units';
+import { getAxisNames, getColumnRadii, isAxisymmetric } from './coordinates';
+import { isCurrentMode } from './physics';
+
+export interface ExportField {
+  name: string;
+  unit: string;
+  values: ArrayLike<number>;
+}
+
+export interface ExportData {
+  grid: GridDims;
+  metresPerUnit: number;
+  // Column names of the horizontal and vertical coordinates ('r', 'z' when axisymmetric)
+  axes: [string, string];
+  fields: ExportField[];
+}
+
+export const EXPORT_FORMATS: Record<DataExportFormat, { label: string; extension: string }> = {
+  csv: { label: 'CSV table', extension: 'csv' },
+  npy: { label: 'NumPy (.npz of .npy)', extension: 'npz' },
+  vtk: { label: 'VTK structured points', extension: 'vtk' },
+};
+
+/**
+ * Grids to export in SI units, all nx × ny and sampled at cell centres: V,
+ * Ex, Ey, the two permittivity components, in current mode σ and the current
+ * density J = σE, and, when charges are placed, the free charge density ρ (the per-cell source divided by the cell area, or
+ * by its volume per radian in axisymmetric mode).
+ */
+export const collectExportData = (
+  potGrid: Float64Array,
+  grid: GridDims,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  sigmaGrid: Float32Array,
+  rhoGrid: Float32Array,
+  params: SimulationParams
+): ExportData => {
+  const metresPerUnit = getMetresPerUnit(params);
+  const { ex, ey } = computeFieldGrids(potGrid, grid);
+  const fields: ExportField[] = [
+    { name: 'V', unit: 'V', values: potGrid },
+    { name: 'Ex', unit: 'V/m', values: Float64Array.from(ex, v => v / metresPerUnit) },
+    { name: 'Ey', unit: 'V/m', values: Float64Array.from(ey, v => v / metresPerUnit) },
+    { name: 'eps_x', unit: '1', values: epsXGrid },
+    { name: 'eps_y', unit: '1', values: epsYGrid },
+  ];
+  if (isCurrentMode(params)) {
+    fields.push(
+      { name: 'sigma', unit: 'S/m', values: sigmaGrid },
+      { name: 'Jx', unit: 'A/m^2', values: Float64Array.from(ex, (v, i) => (sigmaGrid[i] * v) / metresPerUnit) },
+      { name: 'Jy', unit: 'A/m^2', values: Float64Array.from(ey, (v, i) => (sigmaGrid[i] * v) / metresPerUnit) },
+    );
+  }
+  if (rhoGrid.some(v => v !== 0)) {
+    const { hx, hy } = getCellSize(grid);
+    const area = hx * hy * metresPerUnit * metresPerUnit;
+    const radii = getColumnRadii(params, grid);
+    const radiusScale = isAxisymmetric(params) ? metresPerUnit : 1;
+    fields.push({
+      name: 'rho',
+      unit: 'C/m^3',
+      values: Float64Array.from(rhoGrid, (v, i) => (v * EPSILON_0) / (area * radii.centre[i % grid.nx] * radiusScale)),
+    });
+  }
+  return { grid, metresPerUnit, axes: getAxisNames(params), fields };
+};
+
+// Cell size in metres
+const getSpacing = ({ grid, metresPerUnit }: ExportData) => {
+  const { hx, hy } = getCellSize(grid);
+  return { dx: hx * metresPerUnit, dy: hy * metresPerUnit };
+};
+
+const describeGrid = (data: ExportData) => {
+  const { dx, dy } = getSpacing(data);
+  const units = data.fields.map(f => `${f.name} [${f.unit}]`).join(' ');
+  const [h, v] = data.axes;
+  return `nx=${data.grid.nx} ny=${data.grid.ny} dx=${dx} dy=${dy}; values at cell centres, lengths in m, ${h} across and ${v} pointing down; ${units}`;
+};
+
+const formatValue = (v: number) => (Number.isFinite(v) ? v.toPrecision(8) : '0');
+
+/**
+ * One row per cell with its centre coordinates, preceded by `#` comment lines
+ * holding the grid spacing (pandas: `read_csv(path, comment='#')`).
+ */
+export const exportToCSV = (data: ExportData): string => {
+  const { grid, fields } = data;
+  const { dx, dy } = getSpacing(data);
+  const lines = [
+    '# EM Sandbox 2D field export',
+    `# ${describeGrid(data)}`,
+    [...data.axes, ...fields.map(f => f.name)].join(','),
+  ];
+  for (let y = 0; y < grid.ny; y++) {
+    for (let x = 0; x < grid.nx; x++) {
+      const i = y * grid.nx + x;
+      const row = [formatValue((x + 0.5) * dx), formatValue((y + 0.5) * dy)];
+      for (const field of fields) row.push(formatValue(field.values[i]));
+      lines.push(row.join(','));
+    }
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Legacy VTK structured points (ASCII), readable by ParaView and VisIt. The
+ * field is written both as scalars and as the vector E.
+ */
+export const exportToVTK = (data: ExportData): string => {
+  const { grid, fields } = data;
+  const { dx, dy } = getSpacing(data);
+  const count = grid.nx * grid.ny;
+  const lines = [
+    '# vtk DataFile Version 3.0',
+    // The title line is limited to 256 characters, so the units stay in the CSV header
+    'EM Sandbox 2D field export (SI units)',
+    'ASCII',
+    'DATASET STRUCTURED_POINTS',
+    `DIMENSIONS ${grid.nx} ${grid.ny} 1`,
+    `ORIGIN ${dx / 2} ${dy / 2} 0`,
+    `SPACING ${dx} ${dy} 1`,
+    `POINT_DATA ${count}`,
+  ];
+  for (const field of fields) {
+    lines.push(`SCALARS ${field.name} double 1`, 'LOOKUP_TABLE default');
+    for (let i = 0; i < count; i++) lines.push(formatValue(field.values[i]));
+  }
+
+  const ex = fields.find(f => f.name === 'Ex');
+  const ey = fields.find(f => f.name === 'Ey');
+  if (ex && ey) {
+    lines.push('VECTORS E double');
+    for (let i = 0; i < count; i++) lines.push(`${formatValue(ex.values[i])} ${formatValue(ey.values[i])} 0`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * A little-endian float64 array in NumPy's .npy format (version 1.0).
+ */
+const encodeNpy = (values: ArrayLike<number>, shape: number[]): Uint8Array => {
+  const shapeText = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+  let header = `{'descr': '<f8', 'fortran_order': False, 'shape': ${shapeText}, }`;
+  // Magic, version and length take 10 bytes; the header is padded to a multiple of 64
+  const padded = Math.ceil((10 + header.length + 1) / 64) * 64;
+  header = header.padEnd(padded - 10 - 1, ' ') + '\n';
+
+  const bytes = new Uint8Array(padded + values.length * 8);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x93, ...new TextEncoder().encode('NUMPY'), 1, 0]);
+  view.setUint16(8, header.length, true);
+  bytes.set(new TextEncoder().encode(header), 10);
+  for (let i = 0; i < values.length; i++) view.setFloat64(padded + i * 8, values[i], true);
+  return bytes;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Uncompressed zip archive, which is all `numpy.load` needs for a .npz.
+ */
+const buildZip = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const DOS_DATE = (1 << 5) | 1; // 1980-01-01
+  const encoder = new TextEncoder();
+  const entries = files.map(f => ({ ...f, nameBytes: encoder.encode(f.name), crc: crc32(f.data) }));
+  const localSize = entries.reduce((sum, e) => sum + 30 + e.nameBytes.length + e.data.length, 0);
+  const centralSize = entries.reduce((sum, e) => sum + 46 + e.nameBytes.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+
+  // Common part of the local and central headers, from "version needed" on
+  const writeEntryFields = (at: number, e: typeof entries[number]) => {
+    view.setUint16(at, 20, true);
+    view.setUint16(at + 2, 0, true); // flags
+    view.setUint16(at + 4, 0, true); // stored
+    view.setUint16(at + 6, 0, true); // time
+    view.setUint16(at + 8, DOS_DATE, true);
+    view.setUint32(at + 10, e.crc, true);
+    view.setUint32(at + 14, e.data.length, true);
+    view.setUint32(at + 18, e.data.length, true);
+    view.setUint16(at + 22, e.nameBytes.length, true);
+  };
+
+  let pos = 0;
+  const offsets: number[] = [];
+  for (const e of entries) {
+    offsets.push(pos);
+    view.setUint32(pos, 0x04034b50, true);
+    writeEntryFields(pos + 4, e);
+    bytes.set(e.nameBytes, pos + 30);
+    bytes.set(e.data, pos + 30 + e.nameBytes.length);
+    pos += 30 + e.nameBytes.length + e.data.length;
+  }
+
+  entries.forEach((e, k) => {
+    view.setUint32(pos, 0x02014b50, true);
+    view.setUint16(pos + 4, 20, true); // version made by
+    writeEntryFields(pos + 6, e);
+    view.setUint32(pos + 42, offsets[k], true);
+    bytes.set(e.nameBytes, pos + 46);
+    pos += 46 + e.nameBytes.length;
+  });
+
+  view.setUint32(pos, 0x06054b50, true);
+  view.setUint16(pos + 8, entries.length, true);
+  view.setUint16(pos + 10, entries.length, true);
+  view.setUint32(pos + 12, centralSize, true);
+  view.setUint32(pos + 16, localSize, true);
+  return bytes;
+};
+
+/**
+ * A .npz archive with one (ny, nx) array per field, indexed [y, x], plus the
+ * cell-centre coordinates `x` and `y` (`r` and `z` when axisymmetric) and
+ * `spacing` = [dx, dy], all in SI units (metres, V/m, C/m³).
+ */
+export const exportToNpz = (data: ExportData): Uint8Array => {
+  const { grid, fields } = data;
+  const { dx, dy } = getSpacing(data);
+  const arrays = [
+    ...fields.map(f => ({ name: f.name, data: encodeNpy(f.values, [grid.ny, grid.nx]) })),
+    { name: data.axes[0], data: encodeNpy(Array.from({ length: grid.nx }, (_, i) => (i + 0.5) * dx), [grid.nx]) },
+    { name: data.axes[1], data: encodeNpy(Array.from({ length: grid.ny }, (_, i) => (i + 0.5) * dy), [grid.ny]) },
+    { name: 'spacing', data: encodeNpy([dx, dy], [2]) },
+  ];
+  return buildZip(arrays.map(a => ({ name: `${a.name}.npy`, data: a.data })));
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Builds the file in the chosen format and saves it as a download.
+ */
+export const downloadFieldData = (data: ExportData, format: DataExportFormat) => {
+  const filename = `em-sandbox-fields.${EXPORT_FORMATS[format].extension}`;
+  if (format === 'npy') {
+    downloadBlob(new Blob([exportToNpz(data)], { type: 'application/octet-stream' }), filename);
+  } else {
+    const text = format === 'csv' ? exportToCSV(data) : exportToVTK(data);
+    downloadBlob(new Blob([text], { type: 'text/plain' }), filename);
+  }
+};
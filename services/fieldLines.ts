@@ -0,0 +1,301 @@
+import { GridDims, Point, SimulationParams } from '../types';
+import { WORLD_SIZE } from '../constants';
+import { getCellSize, getColor, getReferenceMagnitude, idx, scaleMagnitude } from './solver';
+import { computeFieldGrids, interpolateField } from './fields';
+
+type FieldGrids = ReturnType<typeof computeFieldGrids>;
+
+interface Seed {
+  point: Point;
+  direction: 1 | -1; // Trace along E (field leaving the source) or against it
+}
+
+// Resolution of the line integral convolution texture (texels per side)
+const LIC_SIZE = 256;
+// Half length of the convolution kernel, in texels
+const LIC_LENGTH = 12;
+// Colour buckets used to batch streamline segments coloured by |E|
+const COLOR_BUCKETS = 16;
+
+/**
+ * Seeds streamlines on the boundary of every source: conductor cells and cells
+ * carrying free charge. Each boundary face carries a flux ε ΔV/h × length, and
+ * the seeds are placed at evenly spaced quantiles of the accumulated |flux|,
+ * so the line density is proportional to the local surface charge.
+ */
+export const seedStreamlines = (
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  maskGrid: Uint8Array,
+  rhoGrid: Float32Array,
+  grid: GridDims,
+  count: number
+): Seed[] => {
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const isSource = (i: number) => maskGrid[i] === 1 || rhoGrid[i] !== 0;
+  const faces: { x: number; y: number; flux: number }[] = [];
+
+  // Seed just past the face so the first step starts in free space
+  const addFace = (inner: number, outer: number, eps: Float32Array, h: number, length: number, fx: number, fy: number) => {
+    if (isSource(outer)) return;
+    const flux = (eps[inner] + eps[outer]) * 0.5 * (potGrid[inner] - potGrid[outer]) / h * length;
+    if (flux !== 0) faces.push({ x: fx, y: fy, flux });
+  };
+
+  for (let y = 0; y < ny; y++) {
+    for (let x = 0; x < nx; x++) {
+      const i = idx(x, y, nx);
+      if (!isSource(i)) continue;
+      const cx = (x + 0.5) * hx;
+      const cy = (y + 0.5) * hy;
+      if (y > 0) addFace(i, i - nx, epsYGrid, hy, hx, cx, (y - 0.1) * hy);
+      if (y < ny - 1) addFace(i, i + nx, epsYGrid, hy, hx, cx, (y + 1.1) * hy);
+      if (x > 0) addFace(i, i - 1, epsXGrid, hx, hy, (x - 0.1) * hx, cy);
+      if (x < nx - 1) addFace(i, i + 1, epsXGrid, hx, hy, (x + 1.1) * hx, cy);
+    }
+  }
+
+  const total = faces.reduce((sum, f) => sum + Math.abs(f.flux), 0);
+  if (total === 0 || count <= 0) return [];
+
+  const seeds: Seed[] = [];
+  let accumulated = 0;
+  let next = 0.5;
+  const step = total / count;
+  for (const face of faces) {
+    accumulated += Math.abs(face.flux);
+    while (next * step <= accumulated && seeds.length < count) {
+      seeds.push({ point: { x: face.x, y: face.y }, direction: face.flux > 0 ? 1 : -1 });
+      next++;
+    }
+  }
+  return seeds;
+};
+
+/**
+ * Follows the field direction from a seed with fourth-order Runge–Kutta steps
+ * of half a cell. Stops at the domain edge, inside a conductor, on reaching a
+ * charge of the opposite sign, where the field vanishes or after a loop.
+ */
+export const traceStreamline = (
+  field: FieldGrids,
+  maskGrid: Uint8Array,
+  rhoGrid: Float32Array,
+  grid: GridDims,
+  seed: Seed,
+  minMagnitude: number
+): Point[] => {
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const step = 0.5 * Math.min(hx, hy);
+  const maxSteps = 4 * (nx + ny);
+
+  // Unit direction of the field, or null where it is too weak to follow
+  const direction = (px: number, py: number): Point | null => {
+    const { Ex, Ey } = interpolateField(field, grid, px, py);
+    const mag = Math.hypot(Ex, Ey);
+    if (mag < minMagnitude) return null;
+    return { x: (seed.direction * Ex) / mag, y: (seed.direction * Ey) / mag };
+  };
+
+  const points: Point[] = [seed.point];
+  let { x, y } = seed.point;
+  for (let n = 0; n < maxSteps; n++) {
+    const k1 = direction(x, y);
+    if (!k1) break;
+    const k2 = direction(x + 0.5 * step * k1.x, y + 0.5 * step * k1.y);
+    if (!k2) break;
+    const k3 = direction(x + 0.5 * step * k2.x, y + 0.5 * step * k2.y);
+    if (!k3) break;
+    const k4 = direction(x + step * k3.x, y + step * k3.y);
+    if (!k4) break;
+
+    x += (step / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x);
+    y += (step / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y);
+    if (x < 0 || x > WORLD_SIZE || y < 0 || y > WORLD_SIZE) break;
+    points.push({ x, y });
+
+    const cell = idx(Math.min(nx - 1, Math.floor(x / hx)), Math.min(ny - 1, Math.floor(y / hy)), nx);
+    if (maskGrid[cell] || rhoGrid[cell] * seed.direction < 0) break;
+    // Closed lines (around a floating conductor, say) would otherwise run to maxSteps
+    if (n > 8 && Math.hypot(x - seed.point.x, y - seed.point.y) < step) break;
+  }
+  return points;
+};
+
+const drawHead = (ctx: CanvasRenderingContext2D, x: number, y: number, angle: number, size: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + size * Math.cos(angle), y + size * Math.sin(angle));
+  ctx.lineTo(x + size * Math.cos(angle + 2.5), y + size * Math.sin(angle + 2.5));
+  ctx.lineTo(x + size * Math.cos(angle - 2.5), y + size * Math.sin(angle - 2.5));
+  ctx.closePath();
+  ctx.fill();
+};
+
+/**
+ * Field lines seeded in proportion to the charge on conductors and free
+ * charges, with an arrowhead halfway along each line.
+ */
+export const renderStreamlines = (
+  ctx: CanvasRenderingContext2D,
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  maskGrid: Uint8Array,
+  rhoGrid: Float32Array,
+  grid: GridDims,
+  canvasWidth: number,
+  canvasHeight: number,
+  params: SimulationParams
+) => {
+  const scaleX = canvasWidth / WORLD_SIZE;
+  const scaleY = canvasHeight / WORLD_SIZE;
+  const field = computeFieldGrids(potGrid, grid);
+  const magnitudes: number[] = [];
+  for (let i = 0; i < field.ex.length; i++) {
+    if (!maskGrid[i]) magnitudes.push(Math.hypot(field.ex[i], field.ey[i]));
+  }
+  const reference = getReferenceMagnitude(magnitudes);
+
+  const seeds = seedStreamlines(potGrid, epsXGrid, epsYGrid, maskGrid, rhoGrid, grid, params.streamlineCount);
+  const lines = seeds.map(seed => traceStreamline(field, maskGrid, rhoGrid, grid, seed, reference * 1e-4));
+
+  ctx.save();
+  ctx.strokeStyle = params.vectorColor;
+  ctx.fillStyle = params.vectorColor;
+  ctx.lineWidth = params.vectorWidth;
+  ctx.globalAlpha = params.vectorOpacity;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (params.vectorColorMode === 'magnitude') {
+    // One path per colour bucket keeps the number of stroke calls small
+    const buckets: Path2D[] = Array.from({ length: COLOR_BUCKETS }, () => new Path2D());
+    for (const line of lines) {
+      for (let k = 1; k < line.length; k++) {
+        const a = line[k - 1];
+        const b = line[k];
+        const { Ex, Ey } = interpolateField(field, grid, (a.x + b.x) / 2, (a.y + b.y) / 2);
+        const t = scaleMagnitude(Math.hypot(Ex, Ey), reference, params.vectorScale);
+        const path = buckets[Math.min(COLOR_BUCKETS - 1, Math.floor(t * COLOR_BUCKETS))];
+        path.moveTo(a.x * scaleX, a.y * scaleY);
+        path.lineTo(b.x * scaleX, b.y * scaleY);
+      }
+    }
+    buckets.forEach((path, k) => {
+      const { r, g, b } = getColor((k + 0.5) / COLOR_BUCKETS, 'hot');
+      ctx.strokeStyle = `rgb(${r},${g},${b})`;
+      ctx.stroke(path);
+    });
+    ctx.fillStyle = '#ffffff';
+  } else {
+    ctx.beginPath();
+    for (const line of lines) {
+      if (line.length < 2) continue;
+      ctx.moveTo(line[0].x * scaleX, line[0].y * scaleY);
+      for (let k = 1; k < line.length; k++) ctx.lineTo(line[k].x * scaleX, line[k].y * scaleY);
+    }
+    ctx.stroke();
+  }
+
+  // Arrowheads point along E whichever end the line was traced from
+  for (let n = 0; n < lines.length; n++) {
+    const line = lines[n];
+    if (line.length < 4) continue;
+    const mid = Math.floor(line.length / 2);
+    const a = line[mid - 1];
+    const b = line[mid];
+    const angle = Math.atan2((b.y - a.y) * scaleY, (b.x - a.x) * scaleX) + (seeds[n].direction < 0 ? Math.PI : 0);
+    drawHead(ctx, b.x * scaleX, b.y * scaleY, angle, 3 + 2 * params.vectorWidth);
+  }
+  ctx.restore();
+};
+
+let licNoise: Float32Array | null = null;
+
+// White noise is generated once so the texture does not flicker between frames
+const getNoise = () => {
+  if (!licNoise) {
+    licNoise = new Float32Array(LIC_SIZE * LIC_SIZE);
+    for (let i = 0; i < licNoise.length; i++) licNoise[i] = Math.random();
+  }
+  return licNoise;
+};
+
+/**
+ * Line integral convolution: every texel averages white noise along the field
+ * line through it, which smears the noise into streaks that follow E. The
+ * texture is blended over the heatmap so the colours stay readable.
+ */
+export const renderLIC = (
+  ctx: CanvasRenderingContext2D,
+  potGrid: Float64Array,
+  maskGrid: Uint8Array | null,
+  grid: GridDims,
+  canvasWidth: number,
+  canvasHeight: number,
+  params: SimulationParams
+) => {
+  const field = computeFieldGrids(potGrid, grid);
+  const noise = getNoise();
+  const texel = WORLD_SIZE / LIC_SIZE;
+  const { hx, hy } = getCellSize(grid);
+  const image = new ImageData(LIC_SIZE, LIC_SIZE);
+  const data = image.data;
+
+  // Walks one direction from a texel centre, accumulating the noise it passes
+  const convolve = (startX: number, startY: number, sign: number) => {
+    let x = startX;
+    let y = startY;
+    let sum = 0;
+    let samples = 0;
+    for (let n = 0; n < LIC_LENGTH; n++) {
+      const { Ex, Ey } = interpolateField(field, grid, x, y);
+      const mag = Math.hypot(Ex, Ey);
+      if (mag === 0) break;
+      x += (sign * Ex / mag) * texel;
+      y += (sign * Ey / mag) * texel;
+      const tx = Math.floor(x / texel);
+      const ty = Math.floor(y / texel);
+      if (tx < 0 || tx >= LIC_SIZE || ty < 0 || ty >= LIC_SIZE) break;
+      sum += noise[ty * LIC_SIZE + tx];
+      samples++;
+    }
+    return { sum, samples };
+  };
+
+  for (let ty = 0; ty < LIC_SIZE; ty++) {
+    for (let tx = 0; tx < LIC_SIZE; tx++) {
+      const x = (tx + 0.5) * texel;
+      const y = (ty + 0.5) * texel;
+      let value = 0.5;
+
+      const cell = idx(Math.min(grid.nx - 1, Math.floor(x / hx)), Math.min(grid.ny - 1, Math.floor(y / hy)), grid.nx);
+      if (!maskGrid || !maskGrid[cell]) {
+        const forward = convolve(x, y, 1);
+        const backward = convolve(x, y, -1);
+        const mean = (noise[ty * LIC_SIZE + tx] + forward.sum + backward.sum) / (1 + forward.samples + backward.samples);
+        // Averaging pulls the noise towards grey; stretch the contrast back out
+        value = Math.max(0, Math.min(1, (mean - 0.5) * 3 + 0.5));
+      }
+
+      const p = (ty * LIC_SIZE + tx) * 4;
+      data[p] = data[p + 1] = data[p + 2] = Math.round(value * 255);
+      data[p + 3] = 255;
+    }
+  }
+
+  const texture = document.createElement('canvas');
+  texture.width = LIC_SIZE;
+  texture.height = LIC_SIZE;
+  texture.getContext('2d')?.putImageData(image, 0, 0);
+
+  ctx.save();
+  ctx.globalAlpha = params.vectorOpacity;
+  ctx.globalCompositeOperation = 'overlay';
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(texture, 0, 0, canvasWidth, canvasHeight);
+  ctx.restore();
+};
@@ -0,0 +1,158 @@
+import { GridDims, Point } from '../types';
+import { getCellSize, idx } from './solver';
+
+export interface FieldSample {
+  V: number;
+  Ex: number; // V per world unit
+  Ey: number;
+  E: number;
+  epsX: number; // Relative permittivity along x and y
+  epsY: number;
+  Dx: number; // D/ε₀ = ε E
+  Dy: number;
+  D: number;
+  sigma: number; // Conductivity (S/m)
+  J: number; // σ|E|, with E in V per world unit
+}
+
+export interface LineCutSample {
+  s: number; // Distance from the start of the cut (world units)
+  V: number;
+  E: number;
+}
+
+/**
+ * Gradient of the potential at a cell: central differences in the interior,
+ * one-sided differences on the outer rows and columns.
+ */
+export const getCellField = (potGrid: Float64Array, grid: GridDims, x: number, y: number) => {
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const x0 = Math.max(0, x - 1);
+  const x1 = Math.min(nx - 1, x + 1);
+  const y0 = Math.max(0, y - 1);
+  const y1 = Math.min(ny - 1, y + 1);
+
+  const Ex = -(potGrid[idx(x1, y, nx)] - potGrid[idx(x0, y, nx)]) / ((x1 - x0) * hx);
+  const Ey = -(potGrid[idx(x, y1, nx)] - potGrid[idx(x, y0, nx)]) / ((y1 - y0) * hy);
+  return { Ex, Ey };
+};
+
+/**
+ * E at every cell centre, for renderers that sample the field many times.
+ */
+export const computeFieldGrids = (potGrid: Float64Array, grid: GridDims) => {
+  const ex = new Float32Array(grid.nx * grid.ny);
+  const ey = new Float32Array(grid.nx * grid.ny);
+  for (let y = 0; y < grid.ny; y++) {
+    for (let x = 0; x < grid.nx; x++) {
+      const { Ex, Ey } = getCellField(potGrid, grid, x, y);
+      ex[idx(x, y, grid.nx)] = Ex;
+      ey[idx(x, y, grid.nx)] = Ey;
+    }
+  }
+  return { ex, ey };
+};
+
+/**
+ * E at an arbitrary world point, bilinearly interpolated between cell centres.
+ */
+export const interpolateField = (
+  field: { ex: Float32Array; ey: Float32Array },
+  grid: GridDims,
+  px: number,
+  py: number
+) => {
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const u = Math.max(0, Math.min(nx - 1, px / hx - 0.5));
+  const v = Math.max(0, Math.min(ny - 1, py / hy - 0.5));
+  const x0 = Math.min(nx - 2, Math.floor(u));
+  const y0 = Math.min(ny - 2, Math.floor(v));
+  const fx = u - x0;
+  const fy = v - y0;
+  const i = idx(x0, y0, nx);
+  const mix = (g: Float32Array) =>
+    (g[i] * (1 - fx) + g[i + 1] * fx) * (1 - fy) + (g[i + nx] * (1 - fx) + g[i + nx + 1] * fx) * fy;
+  return { Ex: mix(field.ex), Ey: mix(field.ey) };
+};
+
+/**
+ * Cell under a world-space point, or null when it lies outside the domain.
+ */
+export const worldToCell = (grid: GridDims, point: Point) => {
+  const { hx, hy } = getCellSize(grid);
+  const x = Math.floor(point.x / hx);
+  const y = Math.floor(point.y / hy);
+  if (x < 0 || x >= grid.nx || y < 0 || y >= grid.ny) return null;
+  return { x, y };
+};
+
+/**
+ * Everything the probe reports at the cell under a world-space point.
+ */
+export const sampleField = (
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  sigmaGrid: Float32Array,
+  grid: GridDims,
+  point: Point
+): FieldSample | null => {
+  const cell = worldToCell(grid, point);
+  if (!cell) return null;
+
+  const i = idx(cell.x, cell.y, grid.nx);
+  const { Ex, Ey } = getCellField(potGrid, grid, cell.x, cell.y);
+  const epsX = epsXGrid[i];
+  const epsY = epsYGrid[i];
+  const Dx = epsX * Ex;
+  const Dy = epsY * Ey;
+  const E = Math.hypot(Ex, Ey);
+  return {
+    V: potGrid[i],
+    Ex,
+    Ey,
+    E,
+    epsX,
+    epsY,
+    Dx,
+    Dy,
+    D: Math.hypot(Dx, Dy),
+    sigma: sigmaGrid[i],
+    J: sigmaGrid[i] * E,
+  };
+};
+
+/**
+ * Samples V and |E| along a segment, roughly once per cell crossed.
+ */
+export const sampleLineCut = (
+  potGrid: Float64Array,
+  grid: GridDims,
+  start: Point,
+  end: Point
+): LineCutSample[] => {
+  const { hx, hy } = getCellSize(grid);
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const count = Math.max(2, Math.ceil(length / Math.min(hx, hy)) + 1);
+  const samples: LineCutSample[] = [];
+
+  for (let k = 0; k < count; k++) {
+    const t = k / (count - 1);
+    const cell = worldToCell(grid, {
+      x: start.x + (end.x - start.x) * t,
+      y: start.y + (end.y - start.y) * t,
+    });
+    if (!cell) continue;
+    const { Ex, Ey } = getCellField(potGrid, grid, cell.x, cell.y);
+    samples.push({ s: length * t, V: potGrid[idx(cell.x, cell.y, grid.nx)], E: Math.hypot(Ex, Ey) });
+  }
+  return samples;
+};
+
+/**
+ * Samples as CSV; the header names the units the distances and fields are in.
+ */
+export const lineCutToCSV = (samples: LineCutSample[], lengthUnit: string, fieldUnit: string): string =>
+  [`s [${lengthUnit}],V [V],E [${fieldUnit}]`, ...samples.map(p => `${p.s.toPrecision(6)},${p.V.toPrecision(8)},${p.E.toPrecision(8)}`)].join('\n');
@@ -0,0 +1,350 @@
+import {
+  ChargeState, DielectricState, DisplayRange, FigureFormat, GridDims, PlateState, ShapeGeometry, SimulationParams,
+} from '../types';
+import { CANVAS_SIZE, WORLD_SIZE } from '../constants';
+import { generateHeatmapData, getColor, renderVectorField } from './solver';
+import { renderContours } from './contours';
+import { renderLIC, renderStreamlines } from './fieldLines';
+import { describeQuantity, createColorScale, formatQuantityValue } from './quantities';
+import { toWorld } from './geometry';
+import { getLengthLabel, getTicks, niceStep, toDisplayLength } from './units';
+import { downloadBlob } from './export';
+import { getAxisNames } from './coordinates';
+import { getCoefficientGrids } from './physics';
+import { SvgContext } from './svgContext';
+
+export interface FigureData {
+  potGrid: Float64Array;
+  grid: GridDims;
+  // The displayed quantity and its colour range, as on screen
+  values: Float64Array;
+  range: DisplayRange;
+  epsXGrid: Float32Array;
+  epsYGrid: Float32Array;
+  sigmaGrid: Float32Array;
+  rhoGrid: Float32Array;
+  maskGrid: Uint8Array;
+  params: SimulationParams;
+  plates: PlateState[];
+  dielectrics: DielectricState[];
+  charges: ChargeState[];
+}
+
+export interface FigureOptions {
+  title: string;
+  // Pixel density of the PNG and of the heatmap embedded in the SVG
+  scale: number;
+}
+
+export const FIGURE_SCALES = [1, 2, 3, 4];
+
+// Layout in CSS pixels; the plot itself is the size of the on-screen canvas
+const PLOT_SIZE = CANVAS_SIZE;
+const MARGIN = { left: 64, right: 120, top: 48, bottom: 56 };
+const FIGURE_WIDTH = MARGIN.left + PLOT_SIZE + MARGIN.right;
+const FIGURE_HEIGHT = MARGIN.top + PLOT_SIZE + MARGIN.bottom;
+const AXIS_TICKS = 10; // Roughly how many ticks along each axis
+const LEGEND_TICKS = 6;
+const LEGEND_WIDTH = 16;
+const ELLIPSE_SEGMENTS = 96;
+const INK = '#171717';
+
+// Both canvas and SVG targets are driven through the canvas API
+type FigureContext = CanvasRenderingContext2D | SvgContext;
+const asCanvas = (ctx: FigureContext) => ctx as CanvasRenderingContext2D;
+
+/**
+ * Heatmap at `size` pixels square, with the LIC texture blended in when that
+ * is the field style (the blend needs a real canvas, so it is baked in here).
+ */
+const renderRasterLayer = (data: FigureData, size: number): HTMLCanvasElement => {
+  const { grid, params } = data;
+  const cells = document.createElement('canvas');
+  cells.width = grid.nx;
+  cells.height = grid.ny;
+  cells.getContext('2d')?.putImageData(
+    generateHeatmapData(data.values, grid, params, createColorScale(data.range).normalize), 0, 0
+  );
+
+  const layer = document.createElement('canvas');
+  layer.width = size;
+  layer.height = size;
+  const ctx = layer.getContext('2d');
+  if (ctx) {
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(cells, 0, 0, size, size);
+    if (params.showVectors && params.fieldStyle === 'lic') {
+      renderLIC(ctx, data.potGrid, data.maskGrid, grid, size, size, params);
+    }
+  }
+  return layer;
+};
+
+const tracePolygon = (ctx: FigureContext, points: { x: number; y: number }[], px: number) => {
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x * px, p.y * px) : ctx.lineTo(p.x * px, p.y * px)));
+  ctx.closePath();
+};
+
+const ellipsePoints = (shape: ShapeGeometry, ratio: number) =>
+  Array.from({ length: ELLIPSE_SEGMENTS }, (_, i) => {
+    const t = (2 * Math.PI * i) / ELLIPSE_SEGMENTS;
+    return toWorld(
+      shape,
+      (shape.width / 2) * (1 + ratio * Math.cos(t)),
+      (shape.height / 2) * (1 + ratio * Math.sin(t))
+    );
+  });
+
+/**
+ * Draws a shape in plot pixels (`px` per world unit), matching its on-screen outline.
+ */
+const drawShape = (ctx: FigureContext, shape: ShapeGeometry, fill: string, stroke: string, px: number) => {
+  const { width: w, height: h } = shape;
+  const local = (shape.points ?? []).map(p => toWorld(shape, p.x * w, p.y * h));
+
+  ctx.save();
+  ctx.beginPath();
+  if (shape.shape === 'stroke') {
+    local.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x * px, p.y * px) : ctx.lineTo(p.x * px, p.y * px)));
+    ctx.strokeStyle = fill;
+    ctx.lineWidth = 2 * (shape.brushRadius ?? 0) * px;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+    ctx.restore();
+    return;
+  }
+
+  if (shape.shape === 'rect') {
+    tracePolygon(ctx, [toWorld(shape, 0, 0), toWorld(shape, w, 0), toWorld(shape, w, h), toWorld(shape, 0, h)], px);
+  } else if (shape.shape === 'ellipse') {
+    tracePolygon(ctx, ellipsePoints(shape, 1), px);
+    if (shape.holeRatio) tracePolygon(ctx, ellipsePoints(shape, shape.holeRatio), px);
+  } else {
+    tracePolygon(ctx, local, px);
+  }
+  ctx.fillStyle = fill;
+  ctx.fill('evenodd');
+  ctx.strokeStyle = stroke;
+  ctx.lineWidth = 1.5;
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawObjects = (ctx: FigureContext, data: FigureData, px: number) => {
+  for (const dielectric of data.dielectrics) {
+    drawShape(ctx, dielectric, 'rgba(255, 255, 255, 0.1)', 'rgba(255, 255, 255, 0.5)', px);
+  }
+  for (const plate of data.plates) {
+    const fill = plate.floating
+      ? 'rgba(163, 163, 163, 0.5)'
+      : plate.voltage > 0 ? 'rgba(239, 68, 68, 0.5)' : 'rgba(59, 130, 246, 0.5)';
+    drawShape(ctx, plate, fill, 'rgba(255, 255, 255, 0.6)', px);
+  }
+
+  for (const charge of data.charges) {
+    const positive = charge.value >= 0;
+    ctx.save();
+    ctx.beginPath();
+    if (charge.kind === 'point') {
+      const cx = (charge.x + charge.width / 2) * px;
+      const cy = (charge.y + charge.height / 2) * px;
+      const r = Math.max(7, (charge.width / 2) * px);
+      tracePolygon(ctx, Array.from({ length: 32 }, (_, i) => ({
+        x: cx + r * Math.cos((Math.PI * i) / 16),
+        y: cy + r * Math.sin((Math.PI * i) / 16),
+      })), 1);
+      ctx.fillStyle = positive ? 'rgba(239, 68, 68, 0.8)' : 'rgba(59, 130, 246, 0.8)';
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      ctx.fillStyle = '#ffffff';
+      ctx.font = 'bold 10px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(positive ? '+' : '−', cx, cy);
+    } else {
+      const { x, y, width, height } = charge;
+      tracePolygon(ctx, [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }], px);
+      ctx.fillStyle = positive ? 'rgba(239, 68, 68, 0.2)' : 'rgba(59, 130, 246, 0.2)';
+      ctx.fill();
+      ctx.strokeStyle = positive ? 'rgb(252, 165, 165)' : 'rgb(147, 197, 253)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+};
+
+const drawAxes = (ctx: FigureContext, params: SimulationParams) => {
+  // Ticks fall on round values of the display length unit
+  const span = toDisplayLength(WORLD_SIZE, params);
+  const ticks = getTicks(span, niceStep(span, AXIS_TICKS));
+  const px = PLOT_SIZE / span;
+  const label = (v: number) => String(Number(v.toPrecision(4)));
+  const unit = getLengthLabel(params);
+  ctx.save();
+  ctx.strokeStyle = INK;
+  ctx.fillStyle = INK;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  tracePolygon(ctx, [{ x: 0, y: 0 }, { x: PLOT_SIZE, y: 0 }, { x: PLOT_SIZE, y: PLOT_SIZE }, { x: 0, y: PLOT_SIZE }], 1);
+  for (const v of ticks) {
+    ctx.moveTo(v * px, PLOT_SIZE);
+    ctx.lineTo(v * px, PLOT_SIZE + 5);
+    ctx.moveTo(0, v * px);
+    ctx.lineTo(-5, v * px);
+  }
+  ctx.stroke();
+
+  ctx.font = '11px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  for (const v of ticks) ctx.fillText(label(v), v * px, PLOT_SIZE + 8);
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  for (const v of ticks) ctx.fillText(label(v), -8, v * px);
+
+  ctx.font = '12px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  const [axisH, axisV] = getAxisNames(params);
+  ctx.fillText(`${axisH} (${unit})`, PLOT_SIZE / 2, PLOT_SIZE + MARGIN.bottom - 8);
+  ctx.save();
+  ctx.translate(-MARGIN.left + 8, PLOT_SIZE / 2);
+  ctx.rotate(-Math.PI / 2);
+  ctx.textBaseline = 'top';
+  ctx.fillText(`${axisV} (${unit})`, 0, 0);
+  ctx.restore();
+  ctx.restore();
+};
+
+/**
+ * Vertical colour bar to the right of the plot, with ticks placed through the
+ * same scale as the heatmap so log ranges read correctly.
+ */
+const drawLegend = (ctx: FigureContext, data: FigureData) => {
+  const { params, range } = data;
+  const bar = document.createElement('canvas');
+  bar.width = 1;
+  bar.height = 256;
+  const barCtx = bar.getContext('2d');
+  if (barCtx) {
+    const image = new ImageData(1, 256);
+    for (let i = 0; i < 256; i++) {
+      const { r, g, b } = getColor(1 - i / 255, params.colorMap);
+      image.data.set([r, g, b, 255], i * 4);
+    }
+    barCtx.putImageData(image, 0, 0);
+  }
+
+  const x = PLOT_SIZE + 20;
+  const scale = createColorScale(range);
+  const info = describeQuantity(params.displayQuantity, params);
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(bar, x, 0, LEGEND_WIDTH, PLOT_SIZE);
+  ctx.strokeStyle = INK;
+  ctx.fillStyle = INK;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  tracePolygon(ctx, [{ x, y: 0 }, { x: x + LEGEND_WIDTH, y: 0 }, { x: x + LEGEND_WIDTH, y: PLOT_SIZE }, { x, y: PLOT_SIZE }], 1);
+  for (let k = 0; k < LEGEND_TICKS; k++) {
+    const y = PLOT_SIZE * (1 - k / (LEGEND_TICKS - 1));
+    ctx.moveTo(x + LEGEND_WIDTH, y);
+    ctx.lineTo(x + LEGEND_WIDTH + 4, y);
+  }
+  ctx.stroke();
+
+  ctx.font = '11px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  for (let k = 0; k < LEGEND_TICKS; k++) {
+    const t = k / (LEGEND_TICKS - 1);
+    ctx.fillText(formatQuantityValue(scale.valueAt(t)), x + LEGEND_WIDTH + 7, PLOT_SIZE * (1 - t));
+  }
+
+  ctx.font = '12px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.translate(FIGURE_WIDTH - MARGIN.left - 8, PLOT_SIZE / 2);
+  ctx.rotate(-Math.PI / 2);
+  ctx.fillText(`${info.label}${info.unit ? ` (${info.unit})` : ''}${range.log ? ', log scale' : ''}`, 0, 0);
+  ctx.restore();
+};
+
+/**
+ * Lays out the whole figure: title, raster heatmap, vector overlays (contours,
+ * field, objects), axes and colour bar. Overlays go through the same renderers
+ * as the screen, so on an SVG target they come out as real vector paths.
+ */
+const drawFigure = (ctx: FigureContext, data: FigureData, options: FigureOptions) => {
+  const { params, potGrid, grid } = data;
+  ctx.save();
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  tracePolygon(ctx, [{ x: 0, y: 0 }, { x: FIGURE_WIDTH, y: 0 }, { x: FIGURE_WIDTH, y: FIGURE_HEIGHT }, { x: 0, y: FIGURE_HEIGHT }], 1);
+  ctx.fill();
+
+  if (options.title) {
+    ctx.fillStyle = INK;
+    ctx.font = 'bold 16px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(options.title, MARGIN.left + PLOT_SIZE / 2, MARGIN.top / 2);
+  }
+
+  ctx.translate(MARGIN.left, MARGIN.top);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(renderRasterLayer(data, Math.round(PLOT_SIZE * options.scale)), 0, 0, PLOT_SIZE, PLOT_SIZE);
+
+  const canvas = asCanvas(ctx);
+  if (params.showContours) renderContours(canvas, potGrid, grid, PLOT_SIZE, PLOT_SIZE, params);
+  if (params.showVectors && params.fieldStyle === 'streamlines') {
+    const [coefX, coefY] = getCoefficientGrids(params, data.epsXGrid, data.epsYGrid, data.sigmaGrid);
+    renderStreamlines(canvas, potGrid, coefX, coefY, data.maskGrid, data.rhoGrid, grid, PLOT_SIZE, PLOT_SIZE, params);
+  } else if (params.showVectors && params.fieldStyle === 'arrows') {
+    renderVectorField(canvas, potGrid, grid, PLOT_SIZE, PLOT_SIZE, params);
+  }
+  drawObjects(ctx, data, PLOT_SIZE / WORLD_SIZE);
+  drawAxes(ctx, data.params);
+  drawLegend(ctx, data);
+  ctx.restore();
+};
+
+/**
+ * The figure drawn onto a new canvas, `options.scale` pixels per CSS pixel.
+ */
+export const renderFigureCanvas = (data: FigureData, options: FigureOptions): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(FIGURE_WIDTH * options.scale);
+  canvas.height = Math.round(FIGURE_HEIGHT * options.scale);
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.scale(options.scale, options.scale);
+    drawFigure(ctx, data, options);
+  }
+  return canvas;
+};
+
+export const renderFigurePNG = (data: FigureData, options: FigureOptions): Promise<Blob | null> => {
+  const canvas = renderFigureCanvas(data, options);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+};
+
+export const renderFigureSVG = (data: FigureData, options: FigureOptions): string => {
+  const ctx = new SvgContext();
+  drawFigure(ctx, data, options);
+  return ctx.toSVG(FIGURE_WIDTH, FIGURE_HEIGHT);
+};
+
+export const downloadFigure = async (data: FigureData, format: FigureFormat, options: FigureOptions) => {
+  if (format === 'svg') {
+    downloadBlob(new Blob([renderFigureSVG(data, options)], { type: 'image/svg+xml' }), 'em-sandbox-figure.svg');
+    return;
+  }
+  const blob = await renderFigurePNG(data, options);
+  if (blob) downloadBlob(blob, 'em-sandbox-figure.png');
+};
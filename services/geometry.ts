@@ -0,0 +1,211 @@
+import { Point, ShapeGeometry } from '../types';
+
+// Sub-samples per cell axis when estimating how much of a cell a shape covers
+const COVERAGE_SAMPLES = 4;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const isAxisAligned = (shape: ShapeGeometry) => shape.rotation % 360 === 0;
+
+/**
+ * Converts a world point into the shape's unrotated frame, measured in world
+ * units from the top-left corner of its box (0..width, 0..height).
+ */
+export const toLocal = (shape: ShapeGeometry, px: number, py: number): Point => {
+  const cx = shape.x + shape.width / 2;
+  const cy = shape.y + shape.height / 2;
+  const dx = px - cx;
+  const dy = py - cy;
+  if (isAxisAligned(shape)) return { x: dx + shape.width / 2, y: dy + shape.height / 2 };
+
+  const theta = toRadians(shape.rotation);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  return {
+    x: dx * cos + dy * sin + shape.width / 2,
+    y: -dx * sin + dy * cos + shape.height / 2,
+  };
+};
+
+/**
+ * Inverse of `toLocal`: maps a point of the unrotated box back to world space.
+ */
+export const toWorld = (shape: ShapeGeometry, lx: number, ly: number): Point => {
+  const dx = lx - shape.width / 2;
+  const dy = ly - shape.height / 2;
+  const theta = toRadians(shape.rotation);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  return {
+    x: shape.x + shape.width / 2 + dx * cos - dy * sin,
+    y: shape.y + shape.height / 2 + dx * sin + dy * cos,
+  };
+};
+
+const distanceToSegment = (px: number, py: number, a: Point, b: Point): number => {
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const lengthSq = abx * abx + aby * aby;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - a.x) * abx + (py - a.y) * aby) / lengthSq));
+  return Math.hypot(px - (a.x + t * abx), py - (a.y + t * aby));
+};
+
+const containsLocal = (shape: ShapeGeometry, lx: number, ly: number): boolean => {
+  const { width: w, height: h } = shape;
+
+  switch (shape.shape) {
+    case 'rect':
+      return lx >= 0 && lx <= w && ly >= 0 && ly <= h;
+    case 'ellipse': {
+      const u = (lx - w / 2) / (w / 2);
+      const v = (ly - h / 2) / (h / 2);
+      const r2 = u * u + v * v;
+      const hole = shape.holeRatio ?? 0;
+      return r2 <= 1 && r2 >= hole * hole;
+    }
+    case 'polygon': {
+      // Even-odd ray casting over the vertices scaled into the box
+      const points = shape.points ?? [];
+      let inside = false;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const xi = points[i].x * w, yi = points[i].y * h;
+        const xj = points[j].x * w, yj = points[j].y * h;
+        if ((yi > ly) !== (yj > ly) && lx < ((xj - xi) * (ly - yi)) / (yj - yi) + xi) inside = !inside;
+      }
+      return inside;
+    }
+    case 'stroke': {
+      const points = (shape.points ?? []).map(p => ({ x: p.x * w, y: p.y * h }));
+      const radius = shape.brushRadius ?? 0;
+      if (points.length === 1) return Math.hypot(lx - points[0].x, ly - points[0].y) <= radius;
+      for (let i = 0; i < points.length - 1; i++) {
+        if (distanceToSegment(lx, ly, points[i], points[i + 1]) <= radius) return true;
+      }
+      return false;
+    }
+  }
+};
+
+/**
+ * Hit test for a world point against the shape outline.
+ */
+export const containsPoint = (shape: ShapeGeometry, px: number, py: number): boolean => {
+  const local = toLocal(shape, px, py);
+  return containsLocal(shape, local.x, local.y);
+};
+
+/**
+ * Axis-aligned world bounding box of the (possibly rotated) box.
+ */
+export const getShapeBounds = (shape: ShapeGeometry) => {
+  if (isAxisAligned(shape)) {
+    return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+  }
+  const corners = [
+    toWorld(shape, 0, 0),
+    toWorld(shape, shape.width, 0),
+    toWorld(shape, 0, shape.height),
+    toWorld(shape, shape.width, shape.height),
+  ];
+  const xs = corners.map(c => c.x);
+  const ys = corners.map(c => c.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+/**
+ * Fraction (0-1) of the cell [x0, x0 + hx] × [y0, y0 + hy] inside the shape.
+ * Axis-aligned rectangles are exact; everything else is supersampled.
+ */
+export const getCellCoverage = (
+  shape: ShapeGeometry,
+  x0: number,
+  y0: number,
+  hx: number,
+  hy: number
+): number => {
+  if (shape.shape === 'rect' && isAxisAligned(shape)) {
+    const overlapX = Math.min(x0 + hx, shape.x + shape.width) - Math.max(x0, shape.x);
+    const overlapY = Math.min(y0 + hy, shape.y + shape.height) - Math.max(y0, shape.y);
+    return overlapX > 0 && overlapY > 0 ? (overlapX * overlapY) / (hx * hy) : 0;
+  }
+
+  let inside = 0;
+  for (let sy = 0; sy < COVERAGE_SAMPLES; sy++) {
+    for (let sx = 0; sx < COVERAGE_SAMPLES; sx++) {
+      const px = x0 + ((sx + 0.5) / COVERAGE_SAMPLES) * hx;
+      const py = y0 + ((sy + 0.5) / COVERAGE_SAMPLES) * hy;
+      if (containsPoint(shape, px, py)) inside++;
+    }
+  }
+  return inside / (COVERAGE_SAMPLES * COVERAGE_SAMPLES);
+};
+
+/**
+ * Vertices of a regular polygon inscribed in the unit box (0-1 coordinates).
+ */
+export const regularPolygon = (sides: number): Point[] =>
+  Array.from({ length: sides }, (_, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / sides;
+    return { x: 0.5 + 0.5 * Math.cos(angle), y: 0.5 + 0.5 * Math.sin(angle) };
+  });
+
+/**
+ * Builds the box and relative points for a brush stroke given in world space.
+ * The box is padded by the brush radius so the whole stroke fits inside it.
+ */
+export const strokeFromPath = (path: Point[], radius: number): ShapeGeometry => {
+  const xs = path.map(p => p.x);
+  const ys = path.map(p => p.y);
+  const x = Math.min(...xs) - radius;
+  const y = Math.min(...ys) - radius;
+  const width = Math.max(...xs) + radius - x;
+  const height = Math.max(...ys) + radius - y;
+  return {
+    x, y, width, height,
+    shape: 'stroke',
+    rotation: 0,
+    points: path.map(p => ({ x: (p.x - x) / width, y: (p.y - y) / height })),
+    brushRadius: radius,
+  };
+};
+
+/**
+ * Resizes a shape by dragging its bottom-right corner to a world point while
+ * the top-left corner stays put, measured in the shape's own rotated frame.
+ */
+export const resizeFromCorner = <T extends ShapeGeometry>(
+  shape: T,
+  px: number,
+  py: number,
+  minWidth: number,
+  minHeight: number
+): T => {
+  const anchor = toWorld(shape, 0, 0);
+  const theta = toRadians(shape.rotation);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const dx = px - anchor.x;
+  const dy = py - anchor.y;
+  const width = Math.max(minWidth, dx * cos + dy * sin);
+  const height = Math.max(minHeight, -dx * sin + dy * cos);
+
+  // The box rotates about its centre, so shift it to keep the anchor fixed
+  const resized = { ...shape, width, height };
+  const moved = toWorld(resized, 0, 0);
+  return { ...resized, x: shape.x + anchor.x - moved.x, y: shape.y + anchor.y - moved.y };
+};
+
+/**
+ * Moves one polygon vertex to a world point, clamped to the shape's box.
+ */
+export const moveVertex = <T extends ShapeGeometry>(shape: T, vertex: number, px: number, py: number): T => {
+  const local = toLocal(shape, px, py);
+  const points = [...(shape.points ?? [])];
+  points[vertex] = {
+    x: Math.max(0, Math.min(1, local.x / shape.width)),
+    y: Math.max(0, Math.min(1, local.y / shape.height)),
+  };
+  return { ...shape, points };
+};
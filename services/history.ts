@@ -0,0 +1,38 @@
+/**
+ * Undo/redo stacks of whole states. `past` ends with the most recent state
+ * before the current one; `future` ends with the next state to redo.
+ */
+export interface History<T> {
+  past: T[];
+  future: T[];
+}
+
+export const emptyHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+/**
+ * Records the state that was just replaced. A new edit invalidates anything
+ * that could have been redone.
+ */
+export const recordHistory = <T>(history: History<T>, previous: T, limit: number): History<T> => ({
+  past: [...history.past, previous].slice(-limit),
+  future: [],
+});
+
+/**
+ * Steps back one entry, moving the current state onto the redo stack.
+ */
+export const undoHistory = <T>(history: History<T>, current: T): { history: History<T>; state: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, current] },
+    state: history.past[history.past.length - 1],
+  };
+};
+
+export const redoHistory = <T>(history: History<T>, current: T): { history: History<T>; state: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(0, -1) },
+    state: history.future[history.future.length - 1],
+  };
+};
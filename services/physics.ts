@@ -0,0 +1,21 @@
+import { PhysicsMode, SimulationParams } from '../types';
+
+export const PHYSICS_MODES: Record<PhysicsMode, { label: string; description: string }> = {
+  electrostatic: { label: 'Electrostatics', description: 'Solves ∇·(ε∇V) = -ρ/ε₀ for charges, fields and capacitance' },
+  current: { label: 'DC current', description: 'Solves ∇·(σ∇V) = 0 for steady current flow between the electrodes' },
+};
+
+export const isCurrentMode = (params: SimulationParams) => params.physics === 'current';
+
+/**
+ * The material grids the potential is solved with: ε along x and y, or σ for
+ * both in current mode. Charge conservation ∇·J = 0 with J = σE has the same
+ * form as Gauss's law without free charge, so everything downstream of the
+ * coefficients (solver, fluxes, streamline seeding) carries over unchanged.
+ */
+export const getCoefficientGrids = (
+  params: SimulationParams,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  sigmaGrid: Float32Array
+): [Float32Array, Float32Array] => (isCurrentMode(params) ? [sigmaGrid, sigmaGrid] : [epsXGrid, epsYGrid]);
@@ -0,0 +1,225 @@
+import { DisplayQuantity, DisplayRange, GridDims, SimulationParams } from '../types';
+import { getCellSize, idx } from './solver';
+import { getCellField } from './fields';
+import { getMetresPerUnit } from './units';
+import { ColumnRadii, getAxisNames, getColumnRadii } from './coordinates';
+import { EPSILON_0 } from '../constants';
+
+interface QuantityInfo {
+  label: string;
+  unit: string;
+  // Signed quantities default to a range centred on zero and use a symmetric log scale
+  signed: boolean;
+  // Power of 1/length in the unit, which converts the solver's per-world-unit values to SI
+  lengthPower: number;
+  // Label and unit once multiplied by ε₀, for quantities normalized by it
+  si?: { label: string; unit: string };
+}
+
+// Charges and fields are normalized by ε₀ unless the charge units are set to SI
+export const QUANTITIES: Record<DisplayQuantity, QuantityInfo> = {
+  potential: { label: 'Potential V', unit: 'V', signed: true, lengthPower: 0 },
+  fieldMagnitude: { label: '|E|', unit: 'V/m', signed: false, lengthPower: 1 },
+  fieldX: { label: 'Ex', unit: 'V/m', signed: true, lengthPower: 1 },
+  fieldY: { label: 'Ey', unit: 'V/m', signed: true, lengthPower: 1 },
+  displacement: { label: '|D|/ε₀', unit: 'V/m', signed: false, lengthPower: 1, si: { label: '|D|', unit: 'C/m²' } },
+  permittivity: { label: 'ε (relative)', unit: '', signed: false, lengthPower: 0 },
+  energyDensity: { label: 'Energy density w/ε₀', unit: 'V²/m²', signed: false, lengthPower: 2, si: { label: 'Energy density w', unit: 'J/m³' } },
+  freeCharge: { label: 'Free charge ρ/ε₀', unit: 'V/m²', signed: true, lengthPower: 2, si: { label: 'Free charge ρ', unit: 'C/m³' } },
+  boundCharge: { label: 'Bound charge ρb/ε₀', unit: 'V/m²', signed: true, lengthPower: 2, si: { label: 'Bound charge ρb', unit: 'C/m³' } },
+  // Current-flow quantities, from the conductivity grid
+  conductivity: { label: 'Conductivity σ', unit: 'S/m', signed: false, lengthPower: 0 },
+  currentDensity: { label: '|J|', unit: 'A/m²', signed: false, lengthPower: 1 },
+  powerDensity: { label: 'Joule heating σ|E|²', unit: 'W/m³', signed: false, lengthPower: 2 },
+};
+
+/**
+ * Label and unit of a quantity under the current settings, and the factor
+ * that takes the solver's values (per world unit, normalized by ε₀) to them.
+ */
+export const describeQuantity = (quantity: DisplayQuantity, params: SimulationParams) => {
+  const info = QUANTITIES[quantity];
+  const lengthScale = Math.pow(1 / getMetresPerUnit(params), info.lengthPower);
+  if (info.si && params.chargeUnit === 'coulomb') {
+    return { ...info.si, scale: lengthScale * EPSILON_0 };
+  }
+  // Field components are named after the axes (Er and Ez when axisymmetric)
+  const label = quantity === 'fieldX' || quantity === 'fieldY'
+    ? `E${getAxisNames(params)[quantity === 'fieldX' ? 0 : 1]}`
+    : info.label;
+  return { label, unit: info.unit, scale: lengthScale };
+};
+
+// Lowest decade shown on a log scale, relative to the largest magnitude
+const LOG_DECADES = 4;
+
+/**
+ * Charge density per cell from Gauss's law on the cell faces: the net outward
+ * flux of ε E (free charge) or of E alone (total charge), divided by the cell
+ * area (its volume per radian in axisymmetric mode). Uses the same face
+ * permittivities and radii as the solver, so at convergence the free charge
+ * matches the placed charges plus the induced conductor charge.
+ */
+const computeChargeDensity = (
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  grid: GridDims,
+  radii: ColumnRadii,
+  bound: boolean
+): Float64Array => {
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const wx = hy / hx / (hx * hy);
+  const wy = hx / hy / (hx * hy);
+  const out = new Float64Array(nx * ny);
+
+  for (let y = 0; y < ny; y++) {
+    for (let x = 0; x < nx; x++) {
+      const i = idx(x, y, nx);
+      let free = 0;
+      let total = 0;
+      const face = (j: number, eps: Float32Array, w: number) => {
+        const dv = potGrid[i] - potGrid[j];
+        free += (eps[i] + eps[j]) * 0.5 * dv * w;
+        total += dv * w;
+      };
+      const r = radii.centre[x];
+      if (x > 0) face(i - 1, epsXGrid, (wx * radii.left[x]) / r);
+      if (x < nx - 1) face(i + 1, epsXGrid, (wx * radii.right[x]) / r);
+      if (y > 0) face(i - nx, epsYGrid, wy);
+      if (y < ny - 1) face(i + nx, epsYGrid, wy);
+      // Bound charge is whatever the total has that the free charge does not
+      out[i] = bound ? total - free : free;
+    }
+  }
+  return out;
+};
+
+/**
+ * Per-cell values of the selected display quantity, in the units given by
+ * `describeQuantity`.
+ */
+export const computeQuantity = (
+  quantity: DisplayQuantity,
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  sigmaGrid: Float32Array,
+  grid: GridDims,
+  params: SimulationParams
+): Float64Array => {
+  if (quantity === 'potential') return potGrid;
+  const { scale } = describeQuantity(quantity, params);
+  if (quantity === 'freeCharge' || quantity === 'boundCharge') {
+    const density = computeChargeDensity(potGrid, epsXGrid, epsYGrid, grid, getColumnRadii(params, grid), quantity === 'boundCharge');
+    for (let i = 0; i < density.length; i++) density[i] *= scale;
+    return density;
+  }
+
+  const out = new Float64Array(grid.nx * grid.ny);
+  for (let y = 0; y < grid.ny; y++) {
+    for (let x = 0; x < grid.nx; x++) {
+      const i = idx(x, y, grid.nx);
+      if (quantity === 'permittivity') {
+        out[i] = (epsXGrid[i] + epsYGrid[i]) / 2;
+        continue;
+      }
+      if (quantity === 'conductivity') {
+        out[i] = sigmaGrid[i];
+        continue;
+      }
+      const { Ex, Ey } = getCellField(potGrid, grid, x, y);
+      switch (quantity) {
+        case 'fieldMagnitude': out[i] = Math.hypot(Ex, Ey) * scale; break;
+        case 'fieldX': out[i] = Ex * scale; break;
+        case 'fieldY': out[i] = Ey * scale; break;
+        case 'displacement': out[i] = Math.hypot(epsXGrid[i] * Ex, epsYGrid[i] * Ey) * scale; break;
+        case 'energyDensity': out[i] = 0.5 * (epsXGrid[i] * Ex * Ex + epsYGrid[i] * Ey * Ey) * scale; break;
+        case 'currentDensity': out[i] = sigmaGrid[i] * Math.hypot(Ex, Ey) * scale; break;
+        case 'powerDensity': out[i] = sigmaGrid[i] * (Ex * Ex + Ey * Ey) * scale; break;
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Colour range for the values. Auto spans the data (for the potential, never
+ * less than the source voltages), symmetric centres that span on zero and
+ * manual uses the limits from the panel.
+ */
+export const getDisplayRange = (
+  values: Float64Array,
+  params: SimulationParams,
+  potentialRange: { min: number; max: number }
+): DisplayRange => {
+  const log = params.logScale;
+  if (params.rangeMode === 'manual') {
+    const min = Math.min(params.rangeMin, params.rangeMax);
+    const max = Math.max(params.rangeMin, params.rangeMax);
+    return { min, max: max > min ? max : min + 1, log };
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  if (params.displayQuantity === 'potential') {
+    min = Math.min(min, potentialRange.min);
+    max = Math.max(max, potentialRange.max);
+  }
+
+  if (params.rangeMode === 'symmetric') {
+    const extent = Math.max(Math.abs(min), Math.abs(max));
+    min = -extent;
+    max = extent;
+  }
+  if (!(max - min > 1e-12)) {
+    // Flat field: open a unit window so the map stays readable
+    min -= 1;
+    max += 1;
+  }
+  return { min, max, log };
+};
+
+/**
+ * Maps values onto 0-1 for the colour map and back again for legend ticks.
+ * Log scales are plain log10 for ranges that stay positive and a symmetric
+ * log (linear within a small band around zero) for ranges that cross it.
+ */
+export const createColorScale = (range: DisplayRange) => {
+  let forward = (v: number) => v;
+  let inverse = (f: number) => f;
+
+  if (range.log) {
+    const extent = Math.max(Math.abs(range.min), Math.abs(range.max));
+    const floor = extent * Math.pow(10, -LOG_DECADES);
+    if (range.min >= 0) {
+      forward = v => Math.log10(Math.max(v, floor));
+      inverse = f => Math.pow(10, f);
+    } else {
+      forward = v => Math.sign(v) * Math.log10(1 + Math.abs(v) / floor);
+      inverse = f => Math.sign(f) * floor * (Math.pow(10, Math.abs(f)) - 1);
+    }
+  }
+
+  const lo = forward(range.min);
+  const span = forward(range.max) - lo || 1;
+  return {
+    normalize: (v: number) => Math.max(0, Math.min(1, (forward(v) - lo) / span)),
+    valueAt: (t: number) => inverse(lo + t * span),
+  };
+};
+
+/**
+ * Compact legend/readout formatting that copes with any order of magnitude.
+ */
+export const formatQuantityValue = (v: number): string => {
+  const abs = Math.abs(v);
+  if (abs === 0) return '0';
+  if (abs >= 1e4 || abs < 1e-2) return v.toExponential(1);
+  return String(Number(v.toPrecision(3)));
+};
@@ -0,0 +1,346 @@
+import { RecordingFormat, RecordingSettings, SweepKind, SweepProperty } from '../types';
+
+export const RECORDING_FORMATS: Record<RecordingFormat, { label: string; extension: string }> = {
+  gif: { label: 'GIF', extension: 'gif' },
+  webm: { label: 'WebM', extension: 'webm' },
+};
+
+// WebM is encoded with WebCodecs, which not every browser has
+export const isWebmSupported = () => typeof VideoEncoder !== 'undefined';
+
+export const SWEEP_PROPERTIES: Record<SweepKind, { property: SweepProperty; label: string }[]> = {
+  dielectric: [
+    { property: 'x', label: 'x position' },
+    { property: 'y', label: 'y position' },
+    { property: 'rotation', label: 'Rotation (°)' },
+    { property: 'epsilon', label: 'Permittivity ε' },
+  ],
+  plate: [
+    { property: 'x', label: 'x position' },
+    { property: 'y', label: 'y position' },
+    { property: 'rotation', label: 'Rotation (°)' },
+    { property: 'voltage', label: 'Voltage (V)' },
+  ],
+  charge: [
+    { property: 'x', label: 'x position' },
+    { property: 'y', label: 'y position' },
+    { property: 'value', label: 'Charge' },
+  ],
+};
+
+/**
+ * Frames in the finished animation: the duration at the chosen frame rate.
+ */
+export const getFrameCount = (settings: RecordingSettings) =>
+  Math.max(2, Math.round(settings.fps * settings.duration));
+
+/**
+ * Value of the swept property for a frame, stepping evenly from `from` to `to`.
+ */
+export const getSweepValue = (settings: RecordingSettings, frame: number) => {
+  const { from, to } = settings.sweep;
+  return from + ((to - from) * frame) / (getFrameCount(settings) - 1);
+};
+
+/**
+ * The items with the swept property of the target set to `value`; lists of
+ * another kind come back unchanged.
+ */
+export const applySweepValue = <T extends { id: string }>(
+  items: T[],
+  kind: SweepKind,
+  sweep: RecordingSettings['sweep'],
+  value: number
+): T[] =>
+  kind === sweep.kind ? items.map(item => (item.id === sweep.targetId ? { ...item, [sweep.property]: value } : item)) : items;
+
+export interface FrameEncoder {
+  addFrame: (canvas: HTMLCanvasElement) => void;
+  finish: () => Promise<Blob>;
+}
+
+// --- GIF ---
+
+const GIF_COLORS = 256;
+
+/**
+ * Median-cut quantization of one frame to at most 256 colours. Colours are
+ * binned to 5 bits per channel first, which keeps the cut fast.
+ */
+const quantizeFrame = (pixels: Uint8ClampedArray) => {
+  const histogram = new Uint32Array(1 << 15);
+  const binOf = (p: number) => ((pixels[p] >> 3) << 10) | ((pixels[p + 1] >> 3) << 5) | (pixels[p + 2] >> 3);
+  for (let p = 0; p < pixels.length; p += 4) histogram[binOf(p)]++;
+
+  const bins: number[] = [];
+  for (let b = 0; b < histogram.length; b++) if (histogram[b]) bins.push(b);
+  const channel = (b: number, c: number) => (b >> (10 - 5 * c)) & 31;
+
+  const boxes: number[][] = [bins];
+  while (boxes.length < GIF_COLORS) {
+    // Split the box with the widest channel spread, at its pixel-weighted median
+    let best = -1;
+    let bestChannel = 0;
+    let bestSpread = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let lo = 31;
+        let hi = 0;
+        for (const b of box) {
+          const v = channel(b, c);
+          if (v < lo) lo = v;
+          if (v > hi) hi = v;
+        }
+        if (hi - lo > bestSpread) {
+          bestSpread = hi - lo;
+          best = i;
+          bestChannel = c;
+        }
+      }
+    });
+    if (best < 0) break;
+
+    const box = boxes[best].sort((a, b) => channel(a, bestChannel) - channel(b, bestChannel));
+    const total = box.reduce((sum, b) => sum + histogram[b], 0);
+    let split = 0;
+    for (let acc = 0; split < box.length - 1 && acc + histogram[box[split]] <= total / 2; split++) acc += histogram[box[split]];
+    split = Math.max(1, split);
+    boxes.splice(best, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette = new Uint8Array(GIF_COLORS * 3);
+  const lookup = new Uint8Array(1 << 15);
+  boxes.forEach((box, i) => {
+    let weight = 0;
+    const sum = [0, 0, 0];
+    for (const b of box) {
+      for (let c = 0; c < 3; c++) sum[c] += (channel(b, c) * 8 + 4) * histogram[b];
+      weight += histogram[b];
+      lookup[b] = i;
+    }
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sum[c] / weight);
+  });
+
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let p = 0; p < pixels.length; p += 4) indices[p / 4] = lookup[binOf(p)];
+  return { palette, indices };
+};
+
+/**
+ * GIF LZW compression of 8-bit colour indices, packed into 255-byte sub-blocks.
+ */
+const encodeLZW = (indices: Uint8Array): Uint8Array => {
+  const CLEAR = 256;
+  const END = 257;
+  const bytes: number[] = [];
+  let codeSize = 9;
+  let next = END + 1;
+  let dict = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(CLEAR);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = dict.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (next === 4096) {
+      emit(CLEAR);
+      dict = new Map();
+      next = END + 1;
+      codeSize = 9;
+    } else {
+      if (next >= 1 << codeSize) codeSize++;
+      dict.set(key, next++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(END);
+  if (bits > 0) bytes.push(buffer & 0xff);
+
+  const out = new Uint8Array(1 + bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let pos = 0;
+  out[pos++] = 8; // Minimum code size
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    out[pos++] = block.length;
+    out.set(block, pos);
+    pos += block.length;
+  }
+  out[pos] = 0;
+  return out;
+};
+
+const createGifEncoder = (width: number, height: number, fps: number): FrameEncoder => {
+  const u16 = (v: number) => [v & 0xff, v >> 8];
+  const delay = Math.max(2, Math.round(100 / fps)); // Hundredths of a second
+  const chunks: BlobPart[] = [
+    new Uint8Array([
+      ...new TextEncoder().encode('GIF89a'),
+      ...u16(width), ...u16(height), 0, 0, 0, // No global colour table
+      // Netscape extension: loop forever
+      0x21, 0xff, 11, ...new TextEncoder().encode('NETSCAPE2.0'), 3, 1, 0, 0, 0,
+    ]),
+  ];
+
+  return {
+    addFrame: canvas => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const { palette, indices } = quantizeFrame(ctx.getImageData(0, 0, width, height).data);
+      chunks.push(
+        new Uint8Array([
+          0x21, 0xf9, 4, 0, ...u16(delay), 0, 0, // Graphic control: frame delay
+          0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0x87, // Full frame with a 256-colour local table
+        ]),
+        palette,
+        encodeLZW(indices)
+      );
+    },
+    finish: async () => new Blob([...chunks, new Uint8Array([0x3b])], { type: 'image/gif' }),
+  };
+};
+
+// --- WebM ---
+
+const KEYFRAME_INTERVAL_S = 2;
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+};
+
+const uintBytes = (v: number) => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(v % 256);
+    v = Math.floor(v / 256);
+  } while (v > 0);
+  return new Uint8Array(bytes);
+};
+
+/**
+ * An EBML element: ID bytes, an 8-byte size and the body.
+ */
+const ebml = (id: number, body: Uint8Array | Uint8Array[] | number | string): Uint8Array => {
+  const data = typeof body === 'number' ? uintBytes(body)
+    : typeof body === 'string' ? new TextEncoder().encode(body)
+    : Array.isArray(body) ? concat(body) : body;
+  const size = new Uint8Array(8);
+  size[0] = 0x01;
+  let length = data.length;
+  for (let i = 7; i > 0; i--) {
+    size[i] = length % 256;
+    length = Math.floor(length / 256);
+  }
+  return concat([uintBytes(id), size, data]);
+};
+
+const ebmlFloat = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return ebml(id, bytes);
+};
+
+/**
+ * Minimal WebM container for one VP8 track: a cluster starts at every key
+ * frame, and block times are in milliseconds.
+ */
+const muxWebm = (chunks: { data: Uint8Array; timeMs: number; key: boolean }[], width: number, height: number, durationMs: number) => {
+  const clusters: Uint8Array[] = [];
+  let cluster: Uint8Array[] = [];
+  let clusterTime = 0;
+  const closeCluster = () => {
+    if (cluster.length) clusters.push(ebml(0x1f43b675, [ebml(0xe7, clusterTime), ...cluster]));
+    cluster = [];
+  };
+
+  for (const chunk of chunks) {
+    if (chunk.key) {
+      closeCluster();
+      clusterTime = chunk.timeMs;
+    }
+    const header = new Uint8Array(4);
+    header[0] = 0x81; // Track 1
+    new DataView(header.buffer).setInt16(1, chunk.timeMs - clusterTime);
+    header[3] = chunk.key ? 0x80 : 0;
+    cluster.push(ebml(0xa3, [header, chunk.data]));
+  }
+  closeCluster();
+
+  return concat([
+    ebml(0x1a45dfa3, [
+      ebml(0x4286, 1), ebml(0x42f7, 1), ebml(0x42f2, 4), ebml(0x42f3, 8),
+      ebml(0x4282, 'webm'), ebml(0x4287, 2), ebml(0x4285, 2),
+    ]),
+    ebml(0x18538067, [
+      ebml(0x1549a966, [ebml(0x2ad7b1, 1000000), ebml(0x4d80, 'EM Sandbox 2D'), ebml(0x5741, 'EM Sandbox 2D'), ebmlFloat(0x4489, durationMs)]),
+      ebml(0x1654ae6b, [
+        ebml(0xae, [
+          ebml(0xd7, 1), ebml(0x73c5, 1), ebml(0x83, 1), ebml(0x86, 'V_VP8'),
+          ebml(0xe0, [ebml(0xb0, width), ebml(0xba, height)]),
+        ]),
+      ]),
+      ...clusters,
+    ]),
+  ]);
+};
+
+/**
+ * Encodes frames with WebCodecs at exact timestamps (frame / fps), so the
+ * video plays at the chosen rate however long each frame took to solve.
+ */
+const createWebmEncoder = (width: number, height: number, fps: number): FrameEncoder => {
+  const chunks: { data: Uint8Array; timeMs: number; key: boolean }[] = [];
+  let failure: Error | null = null;
+  let frame = 0;
+  const encoder = new VideoEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      chunks.push({ data, timeMs: Math.round(chunk.timestamp / 1000), key: chunk.type === 'key' });
+    },
+    error: e => { failure = e; },
+  });
+  encoder.configure({ codec: 'vp8', width, height, framerate: fps, bitrate: 4_000_000 });
+
+  return {
+    addFrame: canvas => {
+      const video = new VideoFrame(canvas, { timestamp: Math.round((frame * 1e6) / fps), duration: Math.round(1e6 / fps) });
+      encoder.encode(video, { keyFrame: frame % Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_S)) === 0 });
+      video.close();
+      frame++;
+    },
+    finish: async () => {
+      await encoder.flush();
+      encoder.close();
+      if (failure) throw failure;
+      return new Blob([muxWebm(chunks, width, height, (frame * 1000) / fps)], { type: 'video/webm' });
+    },
+  };
+};
+
+export const createFrameEncoder = (format: RecordingFormat, width: number, height: number, fps: number): FrameEncoder =>
+  format === 'webm' ? createWebmEncoder(width, height, fps) : createGifEncoder(width, height, fps);
@@ -0,0 +1,413 @@
+import { AppMode, ChargeState, DielectricState, PlateState, Point, Scene, ShapeGeometry, SimulationParams } from '../types';
+import { DEFAULT_PARAMS, FIXED_PLATES, FREE_PLATES } from '../constants';
+import { downloadBlob } from './export';
+
+export const SCENE_FORMAT = 'em-sandbox-2d/scene';
+export const SCENE_VERSION = 1;
+
+// On-disk layout: the scene plus a header identifying the format and version
+export interface SceneFile extends Scene {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  name?: string;
+  description?: string;
+}
+
+/**
+ * Raised when a scene cannot be loaded. `issues` lists every problem found,
+ * each prefixed with the path of the offending field.
+ */
+export class SceneError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.length === 1 ? issues[0] : `${issues.length} problems in scene: ${issues.join('; ')}`);
+    this.name = 'SceneError';
+    this.issues = issues;
+  }
+}
+
+// Allowed values of the string-union parameters; everything else is checked
+// against the type of its default
+const BOUNDARY_CHOICES = ['dirichlet', 'ramp', 'neumann', 'periodic', 'open'];
+
+const PARAM_CHOICES: Partial<Record<keyof SimulationParams, readonly string[]>> = {
+  colorMap: ['turbo', 'jet', 'hot', 'gray', 'magma'],
+  displayQuantity: [
+    'potential', 'fieldMagnitude', 'fieldX', 'fieldY', 'displacement',
+    'permittivity', 'energyDensity', 'freeCharge', 'boundCharge',
+    'conductivity', 'currentDensity', 'powerDensity',
+  ],
+  rangeMode: ['auto', 'symmetric', 'manual'],
+  fieldStyle: ['arrows', 'streamlines', 'lic'],
+  vectorColorMode: ['solid', 'magnitude'],
+  vectorScale: ['linear', 'log'],
+  contourMode: ['spacing', 'count'],
+  chargeUnit: ['normalized', 'coulomb'],
+  lengthUnit: ['m', 'mm', 'um'],
+  coordinates: ['planar', 'axisymmetric'],
+  physics: ['electrostatic', 'current'],
+  brushTarget: ['dielectric', 'conductor'],
+  solverType: ['gauss-seidel', 'sor', 'red-black', 'multigrid'],
+  boundaryTop: BOUNDARY_CHOICES,
+  boundaryBottom: BOUNDARY_CHOICES,
+  boundaryLeft: BOUNDARY_CHOICES,
+  boundaryRight: BOUNDARY_CHOICES,
+};
+
+const MIN_GRID = 10;
+const MAX_GRID = 1000;
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'an array' : value === null ? 'null' : typeof value);
+
+/**
+ * Collects problems while reading untrusted JSON so the user sees all of
+ * them at once rather than one per attempt.
+ */
+class SceneReader {
+  issues: string[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push(`${path} ${message}`);
+  }
+
+  number(obj: Json, key: string, path: string, opts: { min?: number; max?: number; positive?: boolean; fallback?: number } = {}): number {
+    const value = obj[key];
+    if (value === undefined && opts.fallback !== undefined) return opts.fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(`${path}.${key}`, `must be a number (got ${describe(value)})`);
+      return opts.fallback ?? 0;
+    }
+    if (opts.positive && value <= 0) this.fail(`${path}.${key}`, `must be greater than 0 (got ${value})`);
+    if (opts.min !== undefined && value < opts.min) this.fail(`${path}.${key}`, `must be at least ${opts.min} (got ${value})`);
+    if (opts.max !== undefined && value > opts.max) this.fail(`${path}.${key}`, `must be at most ${opts.max} (got ${value})`);
+    return value;
+  }
+
+  string(obj: Json, key: string, path: string, fallback?: string): string {
+    const value = obj[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'string') {
+      this.fail(`${path}.${key}`, `must be a string (got ${describe(value)})`);
+      return fallback ?? '';
+    }
+    return value;
+  }
+
+  boolean(obj: Json, key: string, path: string, fallback?: boolean): boolean {
+    const value = obj[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'boolean') {
+      this.fail(`${path}.${key}`, `must be true or false (got ${describe(value)})`);
+      return fallback ?? false;
+    }
+    return value;
+  }
+
+  choice<T extends string>(obj: Json, key: string, path: string, choices: readonly T[], fallback?: T): T {
+    const value = obj[key];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'string' || !choices.includes(value as T)) {
+      this.fail(`${path}.${key}`, `must be one of ${choices.map(c => `"${c}"`).join(', ')} (got ${JSON.stringify(value)})`);
+      return fallback ?? choices[0];
+    }
+    return value as T;
+  }
+
+  list(obj: Json, key: string, path: string): Json[] {
+    const value = obj[key];
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      this.fail(`${path}.${key}`, `must be a list (got ${describe(value)})`);
+      return [];
+    }
+    return value.filter((item, i) => {
+      if (isObject(item)) return true;
+      this.fail(`${path}.${key}[${i}]`, `must be an object (got ${describe(item)})`);
+      return false;
+    });
+  }
+}
+
+const readParams = (reader: SceneReader, raw: unknown): SimulationParams => {
+  if (raw === undefined) return { ...DEFAULT_PARAMS };
+  if (!isObject(raw)) {
+    reader.fail('params', `must be an object (got ${describe(raw)})`);
+    return { ...DEFAULT_PARAMS };
+  }
+
+  // Missing settings take their defaults, so files written before a setting
+  // existed still load; unknown settings are ignored
+  const params: Record<string, unknown> = { ...DEFAULT_PARAMS };
+  for (const key of Object.keys(DEFAULT_PARAMS) as (keyof SimulationParams)[]) {
+    if (raw[key] === undefined) continue;
+    const choices = PARAM_CHOICES[key];
+    const fallback = DEFAULT_PARAMS[key];
+    if (choices) params[key] = reader.choice(raw, key, 'params', choices, fallback as string);
+    else if (typeof fallback === 'number') params[key] = reader.number(raw, key, 'params', { positive: key === 'domainSize', min: key === 'sigmaBg' ? 0 : undefined });
+    else if (typeof fallback === 'boolean') params[key] = reader.boolean(raw, key, 'params');
+    else params[key] = reader.string(raw, key, 'params');
+  }
+
+  for (const key of ['gridNx', 'gridNy'] as const) {
+    const n = params[key] as number;
+    if (!Number.isInteger(n) || n < MIN_GRID || n > MAX_GRID) {
+      reader.fail(`params.${key}`, `must be a whole number of cells between ${MIN_GRID} and ${MAX_GRID} (got ${n})`);
+    }
+  }
+  return params as unknown as SimulationParams;
+};
+
+const readPoints = (reader: SceneReader, raw: unknown, path: string): Point[] => {
+  if (!Array.isArray(raw)) {
+    reader.fail(path, `must be a list of {x, y} points (got ${describe(raw)})`);
+    return [];
+  }
+  return raw.map((p, i) => {
+    if (!isObject(p)) {
+      reader.fail(`${path}[${i}]`, `must be an {x, y} point (got ${describe(p)})`);
+      return { x: 0, y: 0 };
+    }
+    // Points are relative to the shape's box
+    return {
+      x: reader.number(p, 'x', `${path}[${i}]`, { min: 0, max: 1 }),
+      y: reader.number(p, 'y', `${path}[${i}]`, { min: 0, max: 1 }),
+    };
+  });
+};
+
+const readGeometry = (reader: SceneReader, raw: Json, path: string): ShapeGeometry => {
+  const geometry: ShapeGeometry = {
+    x: reader.number(raw, 'x', path),
+    y: reader.number(raw, 'y', path),
+    width: reader.number(raw, 'width', path, { positive: true }),
+    height: reader.number(raw, 'height', path, { positive: true }),
+    shape: reader.choice(raw, 'shape', path, ['rect', 'ellipse', 'polygon', 'stroke'] as const, 'rect'),
+    rotation: reader.number(raw, 'rotation', path, { fallback: 0 }),
+  };
+
+  if (geometry.shape === 'polygon' || geometry.shape === 'stroke') {
+    geometry.points = readPoints(reader, raw.points, `${path}.points`);
+    const minPoints = geometry.shape === 'polygon' ? 3 : 1;
+    if (raw.points !== undefined && geometry.points.length < minPoints) {
+      reader.fail(`${path}.points`, `needs at least ${minPoints} point${minPoints > 1 ? 's' : ''} for a ${geometry.shape}`);
+    }
+  }
+  if (geometry.shape === 'stroke') {
+    geometry.brushRadius = reader.number(raw, 'brushRadius', path, { positive: true });
+  }
+  if (geometry.shape === 'ellipse' && raw.holeRatio !== undefined) {
+    geometry.holeRatio = reader.number(raw, 'holeRatio', path, { min: 0, max: 0.95 });
+  }
+  return geometry;
+};
+
+const readDielectric = (reader: SceneReader, raw: Json, i: number): DielectricState => {
+  const path = `dielectrics[${i}]`;
+  const epsilon = reader.number(raw, 'epsilon', path, { positive: true });
+  return {
+    ...readGeometry(reader, raw, path),
+    id: reader.string(raw, 'id', path),
+    label: reader.string(raw, 'label', path, `D${i + 1}`),
+    epsilon,
+    anisotropic: reader.boolean(raw, 'anisotropic', path, false),
+    epsilonY: reader.number(raw, 'epsilonY', path, { positive: true, fallback: epsilon }),
+    conductivity: reader.number(raw, 'conductivity', path, { min: 0, fallback: 0 }),
+  };
+};
+
+const readPlate = (reader: SceneReader, raw: Json, i: number): PlateState => {
+  const path = `plates[${i}]`;
+  return {
+    ...readGeometry(reader, raw, path),
+    id: reader.string(raw, 'id', path),
+    label: reader.string(raw, 'label', path, `C${i + 1}`),
+    voltage: reader.number(raw, 'voltage', path),
+    floating: reader.boolean(raw, 'floating', path, false),
+    charge: reader.number(raw, 'charge', path, { fallback: 0 }),
+  };
+};
+
+const readCharge = (reader: SceneReader, raw: Json, i: number): ChargeState => {
+  const path = `charges[${i}]`;
+  return {
+    id: reader.string(raw, 'id', path),
+    kind: reader.choice(raw, 'kind', path, ['point', 'distributed'] as const),
+    x: reader.number(raw, 'x', path),
+    y: reader.number(raw, 'y', path),
+    width: reader.number(raw, 'width', path, { positive: true }),
+    height: reader.number(raw, 'height', path, { positive: true }),
+    value: reader.number(raw, 'value', path),
+  };
+};
+
+const checkUniqueIds = (reader: SceneReader, items: { id: string }[], path: string) => {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (seen.has(item.id)) reader.fail(`${path}[${i}].id`, `"${item.id}" is used more than once`);
+    seen.add(item.id);
+  });
+};
+
+/**
+ * Upgrades older layouts one version at a time. Version 0 is the original
+ * app state: a single slab with `epsilonSlab`, a square `gridSize` and plates
+ * whose voltage came from `voltageTop` / `voltageBottom`.
+ */
+const MIGRATIONS: Record<number, (raw: Json) => Json> = {
+  0: raw => {
+    const params = isObject(raw.params) ? { ...raw.params } : {};
+    const plates = Array.isArray(raw.plates) ? raw.plates : [];
+    const { gridSize, epsilonSlab, voltageTop, voltageBottom, ...rest } = params;
+
+    const migrated: Json = {
+      ...raw,
+      version: 1,
+      appMode: raw.appMode ?? 'fixed',
+      params: { ...rest, ...(typeof gridSize === 'number' ? { gridNx: gridSize, gridNy: gridSize } : {}) },
+      plates: plates.map((plate: unknown, i: number) => {
+        if (!isObject(plate)) return plate;
+        const { voltageParam, ...geometry } = plate;
+        const top = voltageParam === 'voltageTop';
+        return {
+          label: top ? 'Top' : 'Bottom',
+          ...geometry,
+          id: typeof plate.id === 'string' ? plate.id : `plate-${i}`,
+          shape: 'rect',
+          rotation: 0,
+          voltage: top ? (voltageTop ?? 100) : (voltageBottom ?? -100),
+          floating: false,
+        };
+      }),
+      dielectrics: isObject(raw.slab)
+        ? [{ id: 'slab', label: 'Slab', ...raw.slab, shape: 'rect', rotation: 0, epsilon: epsilonSlab ?? 4, anisotropic: false, epsilonY: epsilonSlab ?? 4 }]
+        : [],
+      charges: [],
+    };
+    delete migrated.slab;
+    return migrated;
+  },
+};
+
+/**
+ * Parses, migrates and validates a scene from JSON text or an already parsed
+ * value. Throws a `SceneError` listing every problem found.
+ */
+export const parseScene = (input: string | unknown): Scene => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (err) {
+      throw new SceneError([`File is not valid JSON: ${(err as Error).message}`]);
+    }
+  }
+  if (!isObject(raw)) throw new SceneError([`Scene must be a JSON object (got ${describe(raw)})`]);
+  if (raw.format !== undefined && raw.format !== SCENE_FORMAT) {
+    throw new SceneError([`Unknown file format ${JSON.stringify(raw.format)} (expected "${SCENE_FORMAT}")`]);
+  }
+
+  // Files without a version predate the scene format
+  let version = raw.version === undefined ? 0 : raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new SceneError([`version must be a whole number (got ${JSON.stringify(version)})`]);
+  }
+  if (version > SCENE_VERSION) {
+    throw new SceneError([`Scene version ${version} is newer than this app supports (${SCENE_VERSION}); please update the app`]);
+  }
+  while (version < SCENE_VERSION) {
+    raw = MIGRATIONS[version](raw as Json);
+    version++;
+  }
+
+  const doc = raw as Json;
+  const reader = new SceneReader();
+  const appMode = reader.choice<AppMode>(doc, 'appMode', 'scene', ['fixed', 'free'], 'free');
+  const params = readParams(reader, doc.params);
+  const dielectrics = reader.list(doc, 'dielectrics', 'scene').map((d, i) => readDielectric(reader, d, i));
+  const plates = doc.plates === undefined
+    ? (appMode === 'fixed' ? FIXED_PLATES : FREE_PLATES)
+    : reader.list(doc, 'plates', 'scene').map((p, i) => readPlate(reader, p, i));
+  const charges = reader.list(doc, 'charges', 'scene').map((c, i) => readCharge(reader, c, i));
+
+  checkUniqueIds(reader, dielectrics, 'dielectrics');
+  checkUniqueIds(reader, plates, 'plates');
+  checkUniqueIds(reader, charges, 'charges');
+
+  if (reader.issues.length > 0) throw new SceneError(reader.issues);
+  return { appMode, params, dielectrics, plates, charges };
+};
+
+export const serializeScene = (scene: Scene, meta: { name?: string; description?: string } = {}): string => {
+  const file: SceneFile = { format: SCENE_FORMAT, version: SCENE_VERSION, ...meta, ...scene };
+  return JSON.stringify(file, null, 2);
+};
+
+// Scene links look like #scene=z<data>: deflated JSON ('z') where the browser
+// can compress, plain JSON ('j') otherwise, both base64url encoded
+const HASH_PREFIX = '#scene=';
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+/**
+ * Minimal JSON for a link: only the settings that differ from the defaults,
+ * since `parseScene` fills the rest back in.
+ */
+const compactScene = (scene: Scene): string => {
+  const params: Partial<SimulationParams> = {};
+  for (const key of Object.keys(scene.params) as (keyof SimulationParams)[]) {
+    if (scene.params[key] !== DEFAULT_PARAMS[key]) (params as Record<string, unknown>)[key] = scene.params[key];
+  }
+  return JSON.stringify({ version: SCENE_VERSION, ...scene, params });
+};
+
+export const encodeSceneHash = async (scene: Scene): Promise<string> => {
+  const bytes = new TextEncoder().encode(compactScene(scene));
+  if (typeof CompressionStream === 'undefined') return `${HASH_PREFIX}j${toBase64Url(bytes)}`;
+  return `${HASH_PREFIX}z${toBase64Url(await pipeBytes(bytes, new CompressionStream('deflate-raw')))}`;
+};
+
+/**
+ * Reads the scene from a location hash. Returns null when the hash holds no
+ * scene and throws a `SceneError` when it holds a broken one.
+ */
+export const decodeSceneHash = async (hash: string): Promise<Scene | null> => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  const kind = hash.charAt(HASH_PREFIX.length);
+  const data = hash.slice(HASH_PREFIX.length + 1);
+
+  let text: string;
+  try {
+    const bytes = fromBase64Url(data);
+    text = new TextDecoder().decode(kind === 'z' ? await pipeBytes(bytes, new DecompressionStream('deflate-raw')) : bytes);
+  } catch {
+    throw new SceneError(['The scene link is damaged or incomplete']);
+  }
+  return parseScene(text);
+};
+
+/**
+ * Saves the scene as a .json download.
+ */
+export const downloadScene = (scene: Scene, filename = 'scene.json') => {
+  downloadBlob(new Blob([serializeScene(scene)], { type: 'application/json' }), filename);
+};
+
+export const readSceneFile = async (file: File): Promise<Scene> => parseScene(await file.text());
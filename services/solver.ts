@@ -1,135 +1,389 @@
-
-import { GRID_SIZE, ITERATIONS_PER_FRAME } from '../constants';
-import { SimulationParams, SlabState, ColorMapType, PlateState } from '../types';
+import { INSULATOR_CONDUCTIVITY_RATIO, ITERATIONS_PER_FRAME, MIN_CONDUCTIVITY, WORLD_SIZE } from '../constants';
+import {
+  SimulationParams, DielectricState, ColorMapType, PlateState, ChargeState, StepResult, GridDims,
+  ShapeGeometry, RasterizedPlate,
+} from '../types';
+import { getSolverBackend, SolverContext } from './backends';
+import { getCellCoverage, getShapeBounds } from './geometry';
+import { applyEdgeBoundaries, getEdgeVoltages, isPeriodicEdge } from './boundaries';
+import { getColumnRadii, getRevolutionFactor, isAxisymmetric } from './coordinates';
+import { isCurrentMode } from './physics';
 
 /**
  * Maps grid coordinates to an array index.
  */
-export const idx = (x: number, y: number): number => y * GRID_SIZE + x;
+export const idx = (x: number, y: number, nx: number): number => y * nx + x;
+
+/**
+ * Grid resolution selected in the params.
+ */
+export const getGridDims = (params: SimulationParams): GridDims => ({
+  nx: params.gridNx,
+  ny: params.gridNy,
+});
+
+/**
+ * Cell size in world units (geometry lives in 0-100 world coordinates).
+ */
+export const getCellSize = (grid: GridDims) => ({
+  hx: WORLD_SIZE / grid.nx,
+  hy: WORLD_SIZE / grid.ny,
+});
+
+/**
+ * Range of cells covered by a world-space rectangle, clipped to the grid.
+ * End indices are exclusive.
+ */
+export const getCellBounds = (
+  rect: { x: number; y: number; width: number; height: number },
+  grid: GridDims
+) => {
+  const { hx, hy } = getCellSize(grid);
+  return {
+    startX: Math.max(0, Math.floor(rect.x / hx)),
+    endX: Math.min(grid.nx, Math.ceil((rect.x + rect.width) / hx)),
+    startY: Math.max(0, Math.floor(rect.y / hy)),
+    endY: Math.min(grid.ny, Math.ceil((rect.y + rect.height) / hy)),
+  };
+};
+
+/**
+ * Visits every cell touched by a shape with the fraction of the cell it covers.
+ */
+const forEachCoveredCell = (
+  shape: ShapeGeometry,
+  grid: GridDims,
+  visit: (i: number, coverage: number) => void
+) => {
+  const { hx, hy } = getCellSize(grid);
+  const { startX, endX, startY, endY } = getCellBounds(getShapeBounds(shape), grid);
+
+  for (let y = startY; y < endY; y++) {
+    for (let x = startX; x < endX; x++) {
+      const coverage = getCellCoverage(shape, x * hx, y * hy, hx, hy);
+      if (coverage > 0) visit(idx(x, y, grid.nx), coverage);
+    }
+  }
+};
 
 /**
- * Initializes the Permittivity (Epsilon) grid based on the slab position.
+ * Initializes the Permittivity (Epsilon) grids from the dielectric regions.
+ * Regions are painted in list order, so later ones cover earlier ones. Cells
+ * cut by an outline get the area-weighted mix of the region and what lies below.
  */
 export const updateEpsilonGrid = (
-  epsGrid: Float32Array,
-  slab: SlabState,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  dielectrics: DielectricState[],
   params: SimulationParams
 ) => {
-  const { epsilonSlab, epsilonBg } = params;
+  const grid = getGridDims(params);
   
   // Reset grid
-  epsGrid.fill(epsilonBg);
+  epsXGrid.fill(params.epsilonBg);
+  epsYGrid.fill(params.epsilonBg);
 
-  // Rasterize slab (simple bounding box check)
-  const startX = Math.max(0, Math.floor(slab.x));
-  const endX = Math.min(GRID_SIZE, Math.ceil(slab.x + slab.width));
-  const startY = Math.max(0, Math.floor(slab.y));
-  const endY = Math.min(GRID_SIZE, Math.ceil(slab.y + slab.height));
+  for (const dielectric of dielectrics) {
+    const epsX = dielectric.epsilon;
+    const epsY = dielectric.anisotropic ? dielectric.epsilonY : dielectric.epsilon;
 
-  for (let y = startY; y < endY; y++) {
-    for (let x = startX; x < endX; x++) {
-      epsGrid[idx(x, y)] = epsilonSlab;
-    }
+    forEachCoveredCell(dielectric, grid, (i, coverage) => {
+      epsXGrid[i] += (epsX - epsXGrid[i]) * coverage;
+      epsYGrid[i] += (epsY - epsYGrid[i]) * coverage;
+    });
   }
 };
 
 /**
- * Enforces Dirichlet boundary conditions from plates onto the potential grid.
- * This overwrites the potential values at plate locations.
+ * Fills the conductivity grid (S/m) used in current mode, painted like the
+ * permittivity. Insulators are raised to a tiny fraction of the best
+ * conductor so every cell keeps a defined potential: they then pass a
+ * negligible leakage current instead of dividing by zero in the update.
  */
-export const embedPlates = (
-  potGrid: Float64Array,
-  plates: PlateState[],
+export const updateConductivityGrid = (
+  sigmaGrid: Float32Array,
+  dielectrics: DielectricState[],
   params: SimulationParams
 ) => {
-  for (const plate of plates) {
-    const voltage = params[plate.voltageParam];
-    
-    const startX = Math.max(0, Math.floor(plate.x));
-    const endX = Math.min(GRID_SIZE, Math.ceil(plate.x + plate.width));
-    const startY = Math.max(0, Math.floor(plate.y));
-    const endY = Math.min(GRID_SIZE, Math.ceil(plate.y + plate.height));
+  const grid = getGridDims(params);
+  sigmaGrid.fill(params.sigmaBg);
 
+  for (const dielectric of dielectrics) {
+    forEachCoveredCell(dielectric, grid, (i, coverage) => {
+      sigmaGrid[i] += (dielectric.conductivity - sigmaGrid[i]) * coverage;
+    });
+  }
+
+  let max = 0;
+  for (let i = 0; i < sigmaGrid.length; i++) if (sigmaGrid[i] > max) max = sigmaGrid[i];
+  const floor = Math.max(max * INSULATOR_CONDUCTIVITY_RATIO, MIN_CONDUCTIVITY);
+  for (let i = 0; i < sigmaGrid.length; i++) if (sigmaGrid[i] < floor) sigmaGrid[i] = floor;
+};
+
+/**
+ * Rasterizes free charges into the source grid as the charge per cell (q/ε₀),
+ * per radian in axisymmetric mode. Point charges land in the single cell
+ * under their centre (a ring of charge there unless it is on the axis);
+ * distributed charges spread their total evenly over the cells they cover,
+ * in proportion to each cell's volume. Steady currents have no free charge
+ * sources, so the grid stays empty in current mode.
+ */
+export const updateChargeGrid = (
+  rhoGrid: Float32Array,
+  charges: ChargeState[],
+  params: SimulationParams
+) => {
+  const grid = getGridDims(params);
+  const { hx, hy } = getCellSize(grid);
+  const radii = getColumnRadii(params, grid);
+  const revolution = getRevolutionFactor(params);
+  rhoGrid.fill(0);
+  if (isCurrentMode(params)) return;
+
+  for (const charge of charges) {
+    if (charge.kind === 'point') {
+      const cx = Math.floor((charge.x + charge.width / 2) / hx);
+      const cy = Math.floor((charge.y + charge.height / 2) / hy);
+      if (cx >= 0 && cx < grid.nx && cy >= 0 && cy < grid.ny) {
+        rhoGrid[idx(cx, cy, grid.nx)] += charge.value / revolution;
+      }
+      continue;
+    }
+
+    const { startX, endX, startY, endY } = getCellBounds(charge, grid);
+    let volume = 0;
+    for (let x = startX; x < endX; x++) volume += radii.centre[x] * Math.max(0, endY - startY);
+    if (volume <= 0) continue;
+
+    const density = charge.value / revolution / volume;
     for (let y = startY; y < endY; y++) {
       for (let x = startX; x < endX; x++) {
-        // Bounds check to be safe
-        if (x >= 0 && x < GRID_SIZE && y >= 0 && y < GRID_SIZE) {
-           potGrid[idx(x, y)] = voltage;
-        }
+        rhoGrid[idx(x, y, grid.nx)] += density * radii.centre[x];
       }
     }
   }
 };
 
 /**
- * Performs one iteration of the solver using Finite Difference Method.
- * We are solving Del . (Epsilon * Del V) = 0
+ * Resolves each conductor to the cells it occupies: those at least half
+ * covered by its outline. A conductor thinner than a cell still claims the
+ * cell under its centre so it never vanishes on a coarse grid.
  */
-export const solveStep = (
-  potGrid: Float64Array,
-  epsGrid: Float32Array,
+export const rasterizePlates = (
   plates: PlateState[],
   params: SimulationParams
-) => {
-  
-  for (let iter = 0; iter < ITERATIONS_PER_FRAME; iter++) {
-    
-    // 1. Enforce Edge Boundaries (Outer Box)
-    // Top Edge
-    for (let x = 0; x < GRID_SIZE; x++) {
-      if (params.boundaryTop === 'neumann') potGrid[idx(x, 0)] = potGrid[idx(x, 1)];
-      else potGrid[idx(x, 0)] = 0; // Grounded if Dirichlet (unless plate overrides)
-    }
-    // Bottom Edge
-    for (let x = 0; x < GRID_SIZE; x++) {
-      if (params.boundaryBottom === 'neumann') potGrid[idx(x, GRID_SIZE - 1)] = potGrid[idx(x, GRID_SIZE - 2)];
-      else potGrid[idx(x, GRID_SIZE - 1)] = 0;
+): RasterizedPlate[] => {
+  const grid = getGridDims(params);
+  const { hx, hy } = getCellSize(grid);
+
+  return plates.map(plate => {
+    const cells: number[] = [];
+    forEachCoveredCell(plate, grid, (i, coverage) => {
+      if (coverage >= 0.5) cells.push(i);
+    });
+
+    if (cells.length === 0) {
+      const cx = Math.floor((plate.x + plate.width / 2) / hx);
+      const cy = Math.floor((plate.y + plate.height / 2) / hy);
+      if (cx >= 0 && cx < grid.nx && cy >= 0 && cy < grid.ny) cells.push(idx(cx, cy, grid.nx));
     }
-    // Left Edge
-    for (let y = 0; y < GRID_SIZE; y++) {
-      if (params.boundaryLeft === 'neumann') potGrid[idx(0, y)] = potGrid[idx(1, y)];
-      else potGrid[idx(0, y)] = 0;
-    }
-    // Right Edge
-    for (let y = 0; y < GRID_SIZE; y++) {
-      if (params.boundaryRight === 'neumann') potGrid[idx(GRID_SIZE - 1, y)] = potGrid[idx(GRID_SIZE - 2, y)];
-      else potGrid[idx(GRID_SIZE - 1, y)] = 0;
+    return { plate, cells: Int32Array.from(cells) };
+  });
+};
+
+/**
+ * Marks every cell covered by a conductor so the relaxation sweep can skip it.
+ * Those cells are set by `embedPlates` / `updateFloatingPlates` and must not
+ * count towards the residual.
+ */
+export const updatePlateMask = (
+  maskGrid: Uint8Array,
+  conductors: RasterizedPlate[]
+) => {
+  maskGrid.fill(0);
+  for (const { cells } of conductors) {
+    for (let k = 0; k < cells.length; k++) maskGrid[cells[k]] = 1;
+  }
+};
+
+/**
+ * Enforces Dirichlet boundary conditions from fixed-voltage conductors onto the
+ * potential grid. This overwrites the potential values at plate locations.
+ */
+export const embedPlates = (
+  potGrid: Float64Array,
+  conductors: RasterizedPlate[]
+) => {
+  for (const { plate, cells } of conductors) {
+    if (plate.floating) continue;
+    const voltage = plate.voltage;
+    for (let k = 0; k < cells.length; k++) potGrid[cells[k]] = voltage;
+  }
+};
+
+/**
+ * Sets each floating conductor to the uniform potential that carries its set
+ * charge q (λ/ε₀). By Gauss's law the outward flux Σ ε (V_f - V_out) through
+ * its surface equals q, so V_f is the ε-weighted mean of the cells just
+ * outside it plus q / Σ ε. With q = 0 the conductor is uncharged. In
+ * axisymmetric mode q is the total charge Q/ε₀ and the faces are rings. In
+ * current mode ε is σ and a floating electrode passes no net current.
+ */
+export const updateFloatingPlates = (
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  maskGrid: Uint8Array,
+  conductors: RasterizedPlate[],
+  params: SimulationParams
+) => {
+  const grid = getGridDims(params);
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const wx = hy / hx;
+  const wy = hx / hy;
+  const radii = getColumnRadii(params, grid);
+  const revolution = getRevolutionFactor(params);
+
+  for (const { plate, cells } of conductors) {
+    if (!plate.floating || cells.length === 0) continue;
+
+    let weighted = 0;
+    let weightSum = 0;
+    const addFace = (inner: number, outer: number, w: number, epsGrid: Float32Array) => {
+      if (maskGrid[outer]) return;
+      const eps = (epsGrid[inner] + epsGrid[outer]) * 0.5 * w;
+      weighted += eps * potGrid[outer];
+      weightSum += eps;
+    };
+
+    for (let k = 0; k < cells.length; k++) {
+      const i = cells[k];
+      const x = i % nx;
+      const y = (i - x) / nx;
+      if (y > 0) addFace(i, i - nx, wy * radii.centre[x], epsYGrid);
+      if (y < ny - 1) addFace(i, i + nx, wy * radii.centre[x], epsYGrid);
+      if (x > 0) addFace(i, i - 1, wx * radii.left[x], epsXGrid);
+      if (x < nx - 1) addFace(i, i + 1, wx * radii.right[x], epsXGrid);
     }
+    if (weightSum === 0) continue;
 
-    // 2. Relaxation Loop (Interior)
-    for (let y = 1; y < GRID_SIZE - 1; y++) {
-      for (let x = 1; x < GRID_SIZE - 1; x++) {
-        
-        const i = idx(x, y);
-        
-        const iU = idx(x, y - 1);
-        const iD = idx(x, y + 1);
-        const iL = idx(x - 1, y);
-        const iR = idx(x + 1, y);
-
-        // Permittivities at half-steps
-        const epsU = (epsGrid[i] + epsGrid[iU]) * 0.5;
-        const epsD = (epsGrid[i] + epsGrid[iD]) * 0.5;
-        const epsL = (epsGrid[i] + epsGrid[iL]) * 0.5;
-        const epsR = (epsGrid[i] + epsGrid[iR]) * 0.5;
-
-        const sumEps = epsU + epsD + epsL + epsR;
-
-        const newPot = (
-          epsU * potGrid[iU] +
-          epsD * potGrid[iD] +
-          epsL * potGrid[iL] +
-          epsR * potGrid[iR]
-        ) / sumEps;
-
-        potGrid[i] = newPot;
-      }
+    const charge = isCurrentMode(params) ? 0 : plate.charge;
+    const voltage = (weighted + charge / revolution) / weightSum;
+    for (let k = 0; k < cells.length; k++) potGrid[cells[k]] = voltage;
+  }
+};
+
+/**
+ * Colour scale range implied by the sources: the lowest and highest fixed
+ * conductor voltages, widened to include the voltages held on the edges.
+ */
+export const getPotentialRange = (
+  plates: PlateState[],
+  params: SimulationParams
+): { min: number; max: number } => {
+  const voltages = plates.filter(p => !p.floating).map(p => p.voltage);
+  voltages.push(...getEdgeVoltages(params));
+  if (voltages.length === 0) voltages.push(0);
+
+  let min = Math.min(...voltages);
+  let max = Math.max(...voltages);
+  if (max - min < 1e-9) {
+    // Single source level: centre a ±1 V window on it so the map stays readable
+    min -= 1;
+    max += 1;
+  }
+  return { min, max };
+};
+
+/**
+ * Bilinearly resamples a cell-centred grid onto a new resolution, so a solve
+ * can continue on a refined (or coarsened) grid instead of starting from zero.
+ */
+export const resampleGrid = (
+  src: Float64Array,
+  from: GridDims,
+  to: GridDims
+): Float64Array => {
+  const dst = new Float64Array(to.nx * to.ny);
+
+  for (let y = 0; y < to.ny; y++) {
+    // Position of the target cell centre in source cell coordinates
+    const sy = Math.min(Math.max((y + 0.5) * from.ny / to.ny - 0.5, 0), from.ny - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(y0 + 1, from.ny - 1);
+    const ty = sy - y0;
+
+    for (let x = 0; x < to.nx; x++) {
+      const sx = Math.min(Math.max((x + 0.5) * from.nx / to.nx - 0.5, 0), from.nx - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, from.nx - 1);
+      const tx = sx - x0;
+
+      const top = src[idx(x0, y0, from.nx)] * (1 - tx) + src[idx(x1, y0, from.nx)] * tx;
+      const bottom = src[idx(x0, y1, from.nx)] * (1 - tx) + src[idx(x1, y1, from.nx)] * tx;
+      dst[idx(x, y, to.nx)] = top * (1 - ty) + bottom * ty;
     }
+  }
+  return dst;
+};
 
-    // 3. Enforce Plates (Dirichlet overrides)
-    // This happens after relaxation to strictly enforce the source voltages
-    embedPlates(potGrid, plates, params);
+/**
+ * Performs one frame's worth of solver iterations using Finite Difference Method.
+ * We are solving Del . (Epsilon * Del V) = -Rho / Epsilon0, in x-y or, with the
+ * 1/r terms of the cylindrical divergence, in r-z (see `getColumnRadii`).
+ *
+ * The relaxation itself is delegated to the backend selected in the params;
+ * edge and plate conditions are enforced here so all backends share them.
+ * Returns the number of iterations performed and the max-update norm of the last one.
+ */
+export const solveStep = (
+  potGrid: Float64Array,
+  epsXGrid: Float32Array,
+  epsYGrid: Float32Array,
+  rhoGrid: Float32Array,
+  maskGrid: Uint8Array,
+  conductors: RasterizedPlate[],
+  params: SimulationParams
+): StepResult => {
+  const backend = getSolverBackend(params.solverType);
+  const grid = getGridDims(params);
+  const { hx, hy } = getCellSize(grid);
+  const ctx: SolverContext = {
+    potGrid,
+    epsXGrid,
+    epsYGrid,
+    rhoGrid,
+    maskGrid,
+    params,
+    grid,
+    wx: hy / hx,
+    wy: hx / hy,
+    radii: getColumnRadii(params, grid),
+    firstX: isAxisymmetric(params) ? 0 : 1,
+    periodicX: isPeriodicEdge(params, 'Left'),
+    periodicY: isPeriodicEdge(params, 'Top'),
+    enforceBoundaries: () => {
+      // Conductors are embedded last so they override the edge rows they touch
+      applyEdgeBoundaries(potGrid, params);
+      updateFloatingPlates(potGrid, epsXGrid, epsYGrid, maskGrid, conductors, params);
+      embedPlates(potGrid, conductors);
+    },
+  };
+
+  backend.prepare?.(ctx);
+
+  // Expensive backends do fewer iterations per frame to keep the frame time similar
+  const iterations = Math.max(1, Math.round(ITERATIONS_PER_FRAME / backend.cost));
+  let residual = 0;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    ctx.enforceBoundaries();
+    residual = backend.iterate(ctx);
   }
+  ctx.enforceBoundaries();
+
+  return { iterations, residual };
 };
 
 // --- Color Map Logic ---
@@ -198,7 +452,7 @@ const getTurboColor = (t: number): RGB => {
   return { r, g, b };
 };
 
-const getColor = (t: number, type: ColorMapType): RGB => {
+export const getColor = (t: number, type: ColorMapType): RGB => {
   if (type === 'turbo') return getTurboColor(t);
   return getMultiStopColor(t, COLOR_MAPS[type] || COLOR_MAPS['jet']);
 };
@@ -213,21 +467,21 @@ export const getGradientCSS = (type: ColorMapType, direction: string = 'to right
   return `linear-gradient(${direction}, ${cssStops})`;
 };
 
+/**
+ * Paints one pixel per cell. `normalize` maps a cell value onto 0-1 along the
+ * colour map (see `createColorScale` in quantities.ts for linear and log).
+ */
 export const generateHeatmapData = (
-  potGrid: Float64Array,
-  params: SimulationParams
+  values: Float64Array,
+  grid: GridDims,
+  params: SimulationParams,
+  normalize: (value: number) => number
 ): ImageData => {
-  const imgData = new ImageData(GRID_SIZE, GRID_SIZE);
+  const imgData = new ImageData(grid.nx, grid.ny);
   const data = imgData.data;
-  
-  const minV = Math.min(params.voltageBottom, params.voltageTop);
-  const maxV = Math.max(params.voltageBottom, params.voltageTop);
-  const range = maxV - minV || 1;
 
-  for (let i = 0; i < GRID_SIZE * GRID_SIZE; i++) {
-    const val = potGrid[i];
-    let t = (val - minV) / range;
-    t = Math.max(0, Math.min(1, t));
+  for (let i = 0; i < grid.nx * grid.ny; i++) {
+    const t = Math.max(0, Math.min(1, normalize(values[i])));
 
     const { r, g, b } = getColor(t, params.colorMap);
 
@@ -241,17 +495,57 @@ export const generateHeatmapData = (
   return imgData;
 };
 
+/**
+ * Typical field strength of a set of samples (95th percentile), so a few huge
+ * values at conductor corners do not shrink every other arrow to nothing.
+ */
+export const getReferenceMagnitude = (magnitudes: number[]): number => {
+  if (magnitudes.length === 0) return 1;
+  const sorted = [...magnitudes].sort((a, b) => a - b);
+  return sorted[Math.floor(0.95 * (sorted.length - 1))] || 1;
+};
+
+/**
+ * Maps a field magnitude onto 0-1 relative to the reference, linearly or on a
+ * log scale spanning two decades below it.
+ */
+export const scaleMagnitude = (mag: number, reference: number, scale: SimulationParams['vectorScale']): number => {
+  const t = mag / reference;
+  if (scale === 'log') return Math.max(0, Math.min(1, 1 + Math.log10(Math.max(t, 1e-3)) / 2));
+  return Math.min(1, t);
+};
+
 export const renderVectorField = (
   ctx: CanvasRenderingContext2D,
   potGrid: Float64Array,
+  grid: GridDims,
   canvasWidth: number,
   canvasHeight: number,
   params: SimulationParams
 ) => {
-  const { vectorColor, vectorWidth, vectorOpacity } = params;
-  const STRIDE = 5; 
-  const SCALE_FACTOR = canvasWidth / GRID_SIZE; 
-  
+  const { vectorColor, vectorWidth, vectorOpacity, vectorStride, vectorColorMode, vectorScale } = params;
+  const { nx, ny } = grid;
+  const { hx, hy } = getCellSize(grid);
+  const strideX = Math.max(1, Math.round(vectorStride / hx));
+  const strideY = Math.max(1, Math.round(vectorStride / hy));
+  const SCALE_FACTOR = canvasWidth / WORLD_SIZE; 
+
+  const arrows: { px: number; py: number; Ex: number; Ey: number; mag: number }[] = [];
+  for (let y = 2; y < ny - 2; y += strideY) {
+    for (let x = 2; x < nx - 2; x += strideX) {
+      const dVdx = (potGrid[idx(x + 1, y, nx)] - potGrid[idx(x - 1, y, nx)]) / (2 * hx);
+      const dVdy = (potGrid[idx(x, y + 1, nx)] - potGrid[idx(x, y - 1, nx)]) / (2 * hy);
+      const Ex = -dVdx;
+      const Ey = -dVdy;
+      const mag = Math.sqrt(Ex * Ex + Ey * Ey);
+      if (mag < 1e-9) continue;
+
+      arrows.push({ px: (x + 0.5) * hx * SCALE_FACTOR, py: (y + 0.5) * hy * SCALE_FACTOR, Ex, Ey, mag });
+    }
+  }
+  const reference = getReferenceMagnitude(arrows.map(a => a.mag));
+  const maxLen = vectorStride * SCALE_FACTOR * 0.9; 
+
   ctx.save();
   ctx.strokeStyle = vectorColor;
   ctx.fillStyle = vectorColor;
@@ -260,27 +554,19 @@ export const renderVectorField = (
   ctx.lineCap = 'round';
   ctx.lineJoin = 'round';
 
-  for (let y = 2; y < GRID_SIZE - 2; y += STRIDE) {
-    for (let x = 2; x < GRID_SIZE - 2; x += STRIDE) {
-      const dVdx = (potGrid[idx(x + 1, y)] - potGrid[idx(x - 1, y)]) / 2;
-      const dVdy = (potGrid[idx(x, y + 1)] - potGrid[idx(x, y - 1)]) / 2;
-      const Ex = -dVdx;
-      const Ey = -dVdy;
-      const mag = Math.sqrt(Ex * Ex + Ey * Ey);
-      
-      if (mag < 0.01) continue;
+  for (const { px, py, Ex, Ey, mag } of arrows) {
+    const t = scaleMagnitude(mag, reference, vectorScale);
+    const visualMag = t * maxLen;
 
-      const px = (x + 0.5) * SCALE_FACTOR;
-      const py = (y + 0.5) * SCALE_FACTOR;
-
-      const maxLen = STRIDE * SCALE_FACTOR * 0.9; 
-      const visualMag = Math.min(mag * 8, maxLen); 
+    if (vectorColorMode === 'magnitude') {
+      const { r, g, b } = getColor(t, 'hot');
+      ctx.strokeStyle = ctx.fillStyle = `rgb(${r},${g},${b})`;
+    }
 
-      const dx = (Ex / mag) * visualMag;
-      const dy = (Ey / mag) * visualMag;
+    const dx = (Ex / mag) * visualMag;
+    const dy = (Ey / mag) * visualMag;
 
-      drawArrow(ctx, px, py, dx, dy);
-    }
+    drawArrow(ctx, px, py, dx, dy);
   }
   ctx.restore();
 };
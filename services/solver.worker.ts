@@ -0,0 +1,169 @@
+import { GRID_SIZE, WORKER_BATCH_MS } from '../constants';
+import { GridDims, RasterizedPlate, SimulationParams, WorkerRequest, WorkerResponse, WorkerScene } from '../types';
+import {
+  getGridDims,
+  resampleGrid,
+  updateEpsilonGrid,
+  updateConductivityGrid,
+  updateChargeGrid,
+  rasterizePlates,
+  updatePlateMask,
+  embedPlates,
+  solveStep,
+} from './solver';
+import { analyzeField } from './analysis';
+import { getCoefficientGrids } from './physics';
+
+/**
+ * Runs the relaxation off the main thread. The UI posts scene updates and
+ * run/reset commands; the worker solves in batches of WORKER_BATCH_MS and
+ * transfers a copy of the potential back after each batch for rendering.
+ */
+
+let grid: GridDims = { nx: GRID_SIZE, ny: GRID_SIZE };
+let potGrid = new Float64Array(grid.nx * grid.ny);
+let epsXGrid = new Float32Array(grid.nx * grid.ny);
+let epsYGrid = new Float32Array(grid.nx * grid.ny);
+let sigmaGrid = new Float32Array(grid.nx * grid.ny);
+let rhoGrid = new Float32Array(grid.nx * grid.ny);
+let maskGrid = new Uint8Array(grid.nx * grid.ny);
+let conductors: RasterizedPlate[] = [];
+
+const scene: Partial<WorkerScene> = {};
+let running = false;
+let iteration = 0;
+let residual = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const isReady = (s: Partial<WorkerScene>): s is WorkerScene =>
+  !!(s.params && s.dielectrics && s.plates && s.charges);
+
+const postSnapshot = (params: SimulationParams) => {
+  const [coefX, coefY] = getCoefficientGrids(params, epsXGrid, epsYGrid, sigmaGrid);
+  const message: WorkerResponse = {
+    type: 'snapshot',
+    pot: potGrid.slice(),
+    grid,
+    stats: { iteration, residual },
+    analysis: analyzeField(potGrid, coefX, coefY, maskGrid, conductors, params, scene.dielectrics ?? []),
+  };
+  self.postMessage(message, { transfer: [message.pot.buffer] });
+};
+
+const postMaterials = () => {
+  const message: WorkerResponse = {
+    type: 'materials',
+    grid,
+    epsX: epsXGrid.slice(),
+    epsY: epsYGrid.slice(),
+    sigma: sigmaGrid.slice(),
+    rho: rhoGrid.slice(),
+    mask: maskGrid.slice(),
+  };
+  self.postMessage(message, {
+    transfer: [message.epsX.buffer, message.epsY.buffer, message.sigma.buffer, message.rho.buffer, message.mask.buffer],
+  });
+};
+
+const tick = () => {
+  timer = null;
+  if (!running || !isReady(scene)) return;
+
+  const [coefX, coefY] = getCoefficientGrids(scene.params, epsXGrid, epsYGrid, sigmaGrid);
+  const start = performance.now();
+  do {
+    const result = solveStep(potGrid, coefX, coefY, rhoGrid, maskGrid, conductors, scene.params);
+    iteration += result.iterations;
+    residual = result.residual;
+  } while (performance.now() - start < WORKER_BATCH_MS);
+
+  postSnapshot(scene.params);
+  // Yield so queued geometry updates are applied before the next batch
+  timer = setTimeout(tick, 0);
+};
+
+/**
+ * Switches to a new resolution, carrying the current potential over so the
+ * solve continues from a resampled state instead of from scratch.
+ */
+const resize = (next: GridDims) => {
+  potGrid = resampleGrid(potGrid, grid, next);
+  epsXGrid = new Float32Array(next.nx * next.ny);
+  epsYGrid = new Float32Array(next.nx * next.ny);
+  sigmaGrid = new Float32Array(next.nx * next.ny);
+  rhoGrid = new Float32Array(next.nx * next.ny);
+  maskGrid = new Uint8Array(next.nx * next.ny);
+  grid = next;
+};
+
+const applyUpdate = (update: Partial<WorkerScene>) => {
+  const wasReady = isReady(scene);
+  const prevParams = scene.params;
+  Object.assign(scene, update);
+
+  let resized = false;
+  if (update.params) {
+    const next = getGridDims(update.params);
+    if (next.nx !== grid.nx || next.ny !== grid.ny) {
+      resize(next);
+      resized = true;
+    }
+  }
+  if (!isReady(scene)) return;
+
+  // A complete (or resized) scene rasterizes everything; later updates only what changed
+  const rasterizeAll = !wasReady || resized;
+  const epsChanged = rasterizeAll || !!update.dielectrics || (!!update.params && (
+    !prevParams ||
+    update.params.epsilonBg !== prevParams.epsilonBg
+  ));
+  const sigmaChanged = rasterizeAll || !!update.dielectrics || (!!update.params && (
+    !prevParams ||
+    update.params.sigmaBg !== prevParams.sigmaBg
+  ));
+  const rhoChanged = rasterizeAll || !!update.charges || (!!update.params && (
+    !prevParams ||
+    update.params.physics !== prevParams.physics ||
+    update.params.coordinates !== prevParams.coordinates
+  ));
+  if (epsChanged) updateEpsilonGrid(epsXGrid, epsYGrid, scene.dielectrics, scene.params);
+  if (sigmaChanged) updateConductivityGrid(sigmaGrid, scene.dielectrics, scene.params);
+  if (rhoChanged) updateChargeGrid(rhoGrid, scene.charges, scene.params);
+  const platesChanged = rasterizeAll || !!update.plates;
+  if (platesChanged) {
+    conductors = rasterizePlates(scene.plates, scene.params);
+    updatePlateMask(maskGrid, conductors);
+  }
+  if (epsChanged || sigmaChanged || rhoChanged || platesChanged) postMaterials();
+
+  if (resized) {
+    embedPlates(potGrid, conductors);
+    postSnapshot(scene.params);
+  }
+};
+
+const reset = () => {
+  potGrid.fill(0);
+  iteration = 0;
+  residual = 0;
+  if (!isReady(scene)) return;
+  // Initial embed to set up potentials
+  embedPlates(potGrid, conductors);
+  postSnapshot(scene.params);
+};
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'update':
+      applyUpdate(msg.scene);
+      break;
+    case 'reset':
+      reset();
+      break;
+    case 'run':
+      running = msg.running;
+      if (running && timer === null) timer = setTimeout(tick, 0);
+      break;
+  }
+};
@@ -0,0 +1,197 @@
+type Matrix = [number, number, number, number, number, number];
+
+interface DrawState {
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  globalAlpha: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  imageSmoothingEnabled: boolean;
+  transform: Matrix;
+}
+
+const TEXT_ANCHOR: Record<CanvasTextAlign, string> = {
+  start: 'start', left: 'start', center: 'middle', right: 'end', end: 'end',
+};
+
+const BASELINE: Record<CanvasTextBaseline, string> = {
+  alphabetic: 'alphabetic', ideographic: 'ideographic', bottom: 'text-after-edge',
+  top: 'text-before-edge', hanging: 'hanging', middle: 'central',
+};
+
+const num = (v: number) => String(Math.round(v * 100) / 100);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Splits rgba() into an rgb() colour and an opacity, which every SVG reader understands
+const splitColor = (color: string, alpha: number) => {
+  const rgba = /^rgba\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\)$/.exec(color);
+  if (!rgba) return { color, opacity: alpha };
+  return { color: `rgb(${rgba[1]},${rgba[2]},${rgba[3]})`, opacity: alpha * Number(rgba[4]) };
+};
+
+/**
+ * Records 2D canvas drawing calls as SVG elements, so the same renderers that
+ * paint the screen can write vector figures. It covers only the calls those
+ * renderers make: paths, strokes, fills, text, images and translate, rotate
+ * and scale transforms.
+ */
+export class SvgContext {
+  private state: DrawState = {
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    globalAlpha: 1,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    imageSmoothingEnabled: true,
+    transform: [1, 0, 0, 1, 0, 0],
+  };
+  private stack: DrawState[] = [];
+  private path = '';
+  private elements: string[] = [];
+
+  // Blending modes have no SVG equivalent here; composite layers into an image instead
+  globalCompositeOperation: GlobalCompositeOperation = 'source-over';
+
+  get fillStyle() { return this.state.fillStyle; }
+  set fillStyle(v: string) { this.state.fillStyle = v; }
+  get strokeStyle() { return this.state.strokeStyle; }
+  set strokeStyle(v: string) { this.state.strokeStyle = v; }
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(v: number) { this.state.lineWidth = v; }
+  get lineCap() { return this.state.lineCap; }
+  set lineCap(v: CanvasLineCap) { this.state.lineCap = v; }
+  get lineJoin() { return this.state.lineJoin; }
+  set lineJoin(v: CanvasLineJoin) { this.state.lineJoin = v; }
+  get globalAlpha() { return this.state.globalAlpha; }
+  set globalAlpha(v: number) { this.state.globalAlpha = v; }
+  get font() { return this.state.font; }
+  set font(v: string) { this.state.font = v; }
+  get textAlign() { return this.state.textAlign; }
+  set textAlign(v: CanvasTextAlign) { this.state.textAlign = v; }
+  get textBaseline() { return this.state.textBaseline; }
+  set textBaseline(v: CanvasTextBaseline) { this.state.textBaseline = v; }
+  get imageSmoothingEnabled() { return this.state.imageSmoothingEnabled; }
+  set imageSmoothingEnabled(v: boolean) { this.state.imageSmoothingEnabled = v; }
+
+  save() {
+    this.stack.push({ ...this.state });
+  }
+
+  restore() {
+    const state = this.stack.pop();
+    if (state) this.state = state;
+  }
+
+  private multiply(m: Matrix) {
+    const [a, b, c, d, e, f] = this.state.transform;
+    this.state.transform = [
+      a * m[0] + c * m[1], b * m[0] + d * m[1],
+      a * m[2] + c * m[3], b * m[2] + d * m[3],
+      a * m[4] + c * m[5] + e, b * m[4] + d * m[5] + f,
+    ];
+  }
+
+  translate(x: number, y: number) {
+    this.multiply([1, 0, 0, 1, x, y]);
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.multiply([cos, sin, -sin, cos, 0, 0]);
+  }
+
+  scale(x: number, y: number) {
+    this.multiply([x, 0, 0, y, 0, 0]);
+  }
+
+  // Path coordinates are stored already transformed, so strokes scale by hand
+  private point(x: number, y: number) {
+    const [a, b, c, d, e, f] = this.state.transform;
+    return `${num(a * x + c * y + e)} ${num(b * x + d * y + f)}`;
+  }
+
+  private get lineScale() {
+    const [a, b, c, d] = this.state.transform;
+    return Math.sqrt(Math.abs(a * d - b * c));
+  }
+
+  beginPath() {
+    this.path = '';
+  }
+
+  moveTo(x: number, y: number) {
+    this.path += `M${this.point(x, y)}`;
+  }
+
+  lineTo(x: number, y: number) {
+    this.path += `L${this.point(x, y)}`;
+  }
+
+  closePath() {
+    this.path += 'Z';
+  }
+
+  stroke() {
+    if (!this.path) return;
+    const { color, opacity } = splitColor(this.state.strokeStyle, this.state.globalAlpha);
+    this.elements.push(
+      `<path d="${this.path}" fill="none" stroke="${color}" stroke-opacity="${num(opacity)}" ` +
+      `stroke-width="${num(this.state.lineWidth * this.lineScale)}" stroke-linecap="${this.state.lineCap}" stroke-linejoin="${this.state.lineJoin}"/>`
+    );
+  }
+
+  fill(rule: CanvasFillRule = 'nonzero') {
+    if (!this.path) return;
+    const { color, opacity } = splitColor(this.state.fillStyle, this.state.globalAlpha);
+    this.elements.push(`<path d="${this.path}" fill="${color}" fill-opacity="${num(opacity)}" fill-rule="${rule}"/>`);
+  }
+
+  private text(text: string, x: number, y: number, paint: string) {
+    const [a, b, c, d, e, f] = this.state.transform.map(num);
+    this.elements.push(
+      `<text transform="matrix(${a} ${b} ${c} ${d} ${e} ${f})" x="${num(x)}" y="${num(y)}" style="font: ${escapeXml(this.state.font)}" ` +
+      `text-anchor="${TEXT_ANCHOR[this.state.textAlign]}" dominant-baseline="${BASELINE[this.state.textBaseline]}" ${paint}>${escapeXml(text)}</text>`
+    );
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const { color, opacity } = splitColor(this.state.fillStyle, this.state.globalAlpha);
+    this.text(text, x, y, `fill="${color}" fill-opacity="${num(opacity)}"`);
+  }
+
+  strokeText(text: string, x: number, y: number) {
+    const { color, opacity } = splitColor(this.state.strokeStyle, this.state.globalAlpha);
+    this.text(text, x, y, `fill="none" stroke="${color}" stroke-opacity="${num(opacity)}" stroke-width="${num(this.state.lineWidth)}" stroke-linejoin="round"`);
+  }
+
+  /**
+   * Embeds the canvas as a PNG image.
+   */
+  drawImage(image: HTMLCanvasElement, x: number, y: number, width: number, height: number) {
+    const [a, b, c, d, e, f] = this.state.transform.map(num);
+    const rendering = this.state.imageSmoothingEnabled ? '' : ' style="image-rendering: pixelated"';
+    this.elements.push(
+      `<image transform="matrix(${a} ${b} ${c} ${d} ${e} ${f})" x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" ` +
+      `preserveAspectRatio="none" opacity="${num(this.state.globalAlpha)}"${rendering} href="${image.toDataURL('image/png')}"/>`
+    );
+  }
+
+  toSVG(width: number, height: number): string {
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      ...this.elements,
+      '</svg>',
+    ].join('\n');
+  }
+}
@@ -0,0 +1,48 @@
+import { LengthUnit, SimulationParams } from '../types';
+import { WORLD_SIZE } from '../constants';
+
+export const LENGTH_UNITS: Record<LengthUnit, { label: string; metres: number }> = {
+  m: { label: 'm', metres: 1 },
+  mm: { label: 'mm', metres: 1e-3 },
+  um: { label: 'µm', metres: 1e-6 },
+};
+
+/**
+ * Metres per world unit. Geometry is stored in world units (0-100 across the
+ * domain) and the solver works in them too, so physical units only enter
+ * where values are shown, typed in or exported.
+ */
+export const getMetresPerUnit = (params: SimulationParams) => params.domainSize / WORLD_SIZE;
+
+// World units to the display length unit and back
+export const toDisplayLength = (world: number, params: SimulationParams) =>
+  (world * getMetresPerUnit(params)) / LENGTH_UNITS[params.lengthUnit].metres;
+
+export const fromDisplayLength = (display: number, params: SimulationParams) =>
+  (display * LENGTH_UNITS[params.lengthUnit].metres) / getMetresPerUnit(params);
+
+export const getLengthLabel = (params: SimulationParams) => LENGTH_UNITS[params.lengthUnit].label;
+
+/**
+ * A world length in the display unit, e.g. "12.5 mm".
+ */
+export const formatLength = (world: number, params: SimulationParams, digits = 4) =>
+  `${Number(toDisplayLength(world, params).toPrecision(digits))} ${getLengthLabel(params)}`;
+
+/**
+ * The 1, 2 or 5 × 10ⁿ step that splits `span` into roughly `count` pieces,
+ * for ruler and axis ticks.
+ */
+export const niceStep = (span: number, count: number) => {
+  const raw = span / Math.max(1, count);
+  const decade = Math.pow(10, Math.floor(Math.log10(raw)));
+  const mantissa = raw / decade;
+  return (mantissa < 1.5 ? 1 : mantissa < 3.5 ? 2 : mantissa < 7.5 ? 5 : 10) * decade;
+};
+
+// Tick values from 0 to `span` at the given step, trimmed of float noise
+export const getTicks = (span: number, step: number) => {
+  const ticks: number[] = [];
+  for (let k = 0; k * step <= span * (1 + 1e-9); k++) ticks.push(Number((k * step).toPrecision(12)));
+  return ticks;
+};
@@ -1,44 +1,308 @@
 
 export type ColorMapType = 'turbo' | 'jet' | 'hot' | 'gray' | 'magma';
 export type AppMode = 'fixed' | 'free';
-export type BoundaryType = 'dirichlet' | 'neumann';
+// Planar: infinitely deep along z. Axisymmetric: x is the radius r about the left edge, y the axis z
+export type CoordinateSystem = 'planar' | 'axisymmetric';
+// What the potential solves for: electrostatics ∇·(ε∇V) = -ρ/ε₀, or steady DC current ∇·(σ∇V) = 0
+export type PhysicsMode = 'electrostatic' | 'current';
+// 'dirichlet' is a fixed voltage (0 V, grounded, unless set otherwise)
+export type BoundaryType = 'dirichlet' | 'ramp' | 'neumann' | 'periodic' | 'open';
+
+export type BoundaryEdge = 'Top' | 'Bottom' | 'Left' | 'Right';
+export type SolverType = 'gauss-seidel' | 'sor' | 'red-black' | 'multigrid';
+
+export interface GridDims {
+  nx: number; // Cells across
+  ny: number; // Cells down
+}
+
+export type ShapeKind = 'rect' | 'ellipse' | 'polygon' | 'stroke';
+export type ToolMode = 'select' | 'brush' | 'probe' | 'linecut';
+export type BrushTarget = 'dielectric' | 'conductor';
+export type ContourMode = 'spacing' | 'count';
+export type FieldStyle = 'arrows' | 'streamlines' | 'lic';
+export type VectorColorMode = 'solid' | 'magnitude';
+export type VectorScale = 'linear' | 'log';
+export type DisplayQuantity =
+  | 'potential'
+  | 'fieldMagnitude'
+  | 'fieldX'
+  | 'fieldY'
+  | 'displacement'
+  | 'permittivity'
+  | 'energyDensity'
+  | 'freeCharge'
+  | 'boundCharge'
+  | 'conductivity'
+  | 'currentDensity'
+  | 'powerDensity';
+export type RangeMode = 'auto' | 'symmetric' | 'manual';
+export type DataExportFormat = 'csv' | 'npy' | 'vtk';
+export type FigureFormat = 'png' | 'svg';
+export type RecordingFormat = 'gif' | 'webm';
+export type RecordingMode = 'iterations' | 'sweep';
+export type SweepKind = 'dielectric' | 'plate' | 'charge';
+export type SweepProperty = 'x' | 'y' | 'rotation' | 'epsilon' | 'voltage' | 'value';
+
+export interface Point {
+  x: number;
+  y: number;
+}
 
 export interface SimulationParams {
-  gridSize: number;
-  epsilonSlab: number;
-  epsilonBg: number;
-  voltageTop: number;
-  voltageBottom: number;
+  // Grid resolution (the domain is always 0-100 world units on each axis)
+  gridNx: number;
+  gridNy: number;
+  coordinates: CoordinateSystem;
+  physics: PhysicsMode;
+  // Physical side length of the square domain; every world unit is domainSize/100 metres
+  domainSize: number; // Metres
+  lengthUnit: LengthUnit; // Unit lengths are shown and entered in
+  showRulers: boolean;
+  epsilonBg: number; // Permittivity wherever no dielectric region is placed
+  sigmaBg: number; // Conductivity there (S/m), used in current mode
+  // E-field overlay: stride-sampled arrows, traced field lines or an LIC texture
   showVectors: boolean;
+  fieldStyle: FieldStyle;
   vectorColor: string;
   vectorOpacity: number;
   vectorWidth: number;
+  vectorStride: number; // World units between arrows
+  vectorColorMode: VectorColorMode;
+  vectorScale: VectorScale; // Maps |E| to arrow length and colour
+  streamlineCount: number;
+  // Equipotential contours, either every `contourSpacing` volts or `contourCount` even levels
+  showContours: boolean;
+  contourMode: ContourMode;
+  contourSpacing: number;
+  contourCount: number;
+  contourLabels: boolean;
+  contourColor: string;
+  contourOpacity: number;
+  contourWidth: number;
   colorMap: ColorMapType;
+  // Heatmap quantity and how its values map onto the colour map
+  displayQuantity: DisplayQuantity;
+  rangeMode: RangeMode;
+  rangeMin: number; // Manual range limits, in the quantity's own units
+  rangeMax: number;
+  logScale: boolean;
+  chargeUnit: ChargeUnit;
+  // Brush tool (each stroke becomes a new dielectric or conductor)
+  brushTarget: BrushTarget;
+  brushRadius: number; // World units
+  brushEpsilon: number;
+  brushVoltage: number;
+  // Solver backend
+  solverType: SolverType;
+  sorOmega: number; // Over-relaxation factor for SOR and red-black SOR
+  autoOmega: boolean; // Use the estimated optimal ω instead of sorOmega
+  // Convergence
+  tolerance: number;
+  autoStop: boolean;
   // Edge Boundaries
   boundaryTop: BoundaryType;
   boundaryBottom: BoundaryType;
   boundaryLeft: BoundaryType;
   boundaryRight: BoundaryType;
+  // Fixed edges hold the first voltage; ramps run from it to the second
+  boundaryTopVoltage: number;
+  boundaryTopVoltageEnd: number;
+  boundaryBottomVoltage: number;
+  boundaryBottomVoltageEnd: number;
+  boundaryLeftVoltage: number;
+  boundaryLeftVoltageEnd: number;
+  boundaryRightVoltage: number;
+  boundaryRightVoltageEnd: number;
 }
 
-export interface SlabState {
-  x: number; // Grid coordinates (0-100)
+// Outline shared by conductors and dielectrics. The box is the unrotated frame
+// and `rotation` turns it about its centre. Polygon and stroke points are
+// stored relative to the box (0-1) so moving or resizing carries them along.
+export interface ShapeGeometry {
+  x: number; // World coordinates (0-100)
   y: number;
   width: number;
   height: number;
+  shape: ShapeKind;
+  rotation: number; // Degrees, clockwise on screen
+  points?: Point[]; // Polygon vertices or brush path
+  brushRadius?: number; // Half-width of a brush stroke in world units
+  holeRatio?: number; // Ellipses only: inner radius / outer radius, making a ring
 }
 
-export interface PlateState {
+// A dielectric region. Later entries in the scene list are stacked on top and
+// win where regions overlap. Anisotropic regions use `epsilon` along x and
+// `epsilonY` along y; isotropic ones use `epsilon` for both. `conductivity`
+// only matters in current mode, where 0 makes the region an insulator.
+export interface DielectricState extends ShapeGeometry {
   id: string;
-  x: number;
+  label: string;
+  epsilon: number;
+  anisotropic: boolean;
+  epsilonY: number;
+  conductivity: number; // S/m
+}
+
+// A conductor (electrode). Fixed conductors are held at `voltage`; floating
+// ones settle at whatever uniform potential leaves them with zero net charge.
+export interface PlateState extends ShapeGeometry {
+  id: string;
+  label: string;
+  voltage: number;
+  // A floating conductor has no set voltage: its potential is solved so that
+  // it carries `charge`, the net line charge as λ/ε₀ (V), zero when uncharged
+  floating: boolean;
+  charge: number;
+}
+
+export type ChargeKind = 'point' | 'distributed';
+export type ChargeUnit = 'normalized' | 'coulomb';
+
+export type LengthUnit = 'm' | 'mm' | 'um';
+
+export interface ChargeState {
+  id: string;
+  kind: ChargeKind;
+  x: number; // World coordinates (0-100)
   y: number;
   width: number;
   height: number;
-  voltageParam: 'voltageTop' | 'voltageBottom';
+  // Total line charge expressed as λ/ε₀ (volts). A point charge deposits it
+  // into a single cell, a distributed charge spreads it evenly over its area.
+  value: number;
+}
+
+// Everything needed to rebuild a setup: what scene files carry
+export interface Scene {
+  appMode: AppMode;
+  params: SimulationParams;
+  dielectrics: DielectricState[];
+  plates: PlateState[];
+  charges: ChargeState[];
 }
 
 export type SolverState = 'RUNNING' | 'PAUSED';
 
+export interface StepResult {
+  iterations: number; // Iterations performed this frame
+  residual: number; // Max-update norm of the last iteration (V)
+}
+
+// A conductor together with the grid cells it occupies at the current resolution
+export interface RasterizedPlate {
+  plate: PlateState;
+  cells: Int32Array;
+}
+
+export interface SolverStats {
+  iteration: number; // Total sweeps since the last reset
+  residual: number; // Max-update norm of the latest sweep (V)
+}
+
+// --- Derived results ---
+
+export interface SurfaceChargeSample {
+  s: number; // Distance along the conductor perimeter (world units)
+  sigma: number; // Surface charge density σ/ε₀ (V per world unit)
+}
+
+// In current mode `charge` is instead the current leaving the conductor per
+// unit depth (A/m) and `surfaceCharge` the outward current density (A/m² per
+// world unit, i.e. σ ΔV / h)
+export interface ConductorResult {
+  id: string;
+  label: string;
+  floating: boolean;
+  voltage: number; // Solved potential (equals the set voltage unless floating)
+  charge: number; // Enclosed charge λ/ε₀ from Gauss's law (V)
+  surfaceCharge: SurfaceChargeSample[];
+}
+
+// Joule heating in one material region, or in the background (id '')
+export interface RegionPower {
+  id: string;
+  label: string;
+  power: number; // W per unit depth
+}
+
+// In current mode `capacitance` holds the conductance (S/m) and
+// `idealCapacitance` the σ A / d estimate of it
+export interface FieldAnalysis {
+  energy: number; // Field energy per unit depth W/ε₀ (V²)
+  conductors: ConductorResult[];
+  // C/ε₀ between the highest- and lowest-voltage conductors
+  capacitance: { high: string; low: string; value: number } | null;
+  // ε A / d estimate (C/ε₀) for two facing rectangular plates
+  idealCapacitance: number | null;
+  // Current mode only: total Joule power (W per unit depth) and its split by region
+  power: number | null;
+  regionPower: RegionPower[];
+}
+
+// --- Solver worker protocol ---
+
+// Everything the worker needs to rasterize and solve a scene
+export interface WorkerScene {
+  params: SimulationParams;
+  dielectrics: DielectricState[];
+  plates: PlateState[];
+  charges: ChargeState[];
+}
+
+export type WorkerRequest =
+  | { type: 'update'; scene: Partial<WorkerScene> }
+  | { type: 'reset' }
+  | { type: 'run'; running: boolean };
+
+export type WorkerResponse =
+  | {
+      type: 'snapshot';
+      pot: Float64Array; // Transferred copy of the potential grid
+      grid: GridDims; // Resolution of `pot`, which may lag behind the params
+      stats: SolverStats;
+      analysis: FieldAnalysis;
+    }
+  | {
+      // Sent whenever the material or source grids are re-rasterized
+      type: 'materials';
+      grid: GridDims;
+      epsX: Float32Array;
+      epsY: Float32Array;
+      sigma: Float32Array;
+      rho: Float32Array;
+      mask: Uint8Array;
+    };
+
+// One-off request for the canvas to export what it shows; `id` tells repeats apart
+export type ExportRequest =
+  | { id: number; kind: 'data'; format: DataExportFormat }
+  | { id: number; kind: 'figure'; format: FigureFormat; title: string; scale: number };
+
+// An animation capture: a frame every `iterationStep` solver iterations, or one
+// converged frame per step of a property swept from `from` to `to`
+export interface RecordingSettings {
+  format: RecordingFormat;
+  mode: RecordingMode;
+  fps: number;
+  duration: number; // Seconds of animation; sets the number of frames
+  iterationStep: number;
+  sweep: {
+    kind: SweepKind;
+    targetId: string;
+    property: SweepProperty;
+    from: number;
+    to: number;
+  };
+}
+
+// Value span of the heatmap, reported to the colour legend
+export interface DisplayRange {
+  min: number;
+  max: number;
+  log: boolean;
+}
+
 // Used for the color map interpolation
 export interface ColorStop {
   val: number;